@@ -0,0 +1,203 @@
+import * as vscode from 'vscode';
+import { AnalysisBaseline, FileAnalysisResult, GraphData } from './types';
+
+/**
+ * キャッシュファイルの内容
+ */
+interface CacheFile {
+  analyzerVersion: number;
+  files: Record<string, { hash: string; result: FileAnalysisResult }>;
+}
+
+/**
+ * 前回表示したグラフ（次回の起動時にすぐ表示する）と、起動時の再検証に使う解析の状態
+ */
+interface GraphCacheFile {
+  analyzerVersion: number;
+  workspacePaths: string[];
+  graph: GraphData;
+  baseline?: AnalysisBaseline;
+}
+
+/**
+ * ファイルごとの抽出結果とグラフを拡張機能のストレージ（storageUri）に保存する永続キャッシュ
+ * 内容のハッシュと解析器のバージョンが一致する場合だけ再利用する
+ * 起動時は、グラフとともに保存した解析の状態（AnalysisBaseline）と比べて、内容の変わったファイルとその依存元だけ
+ * インポートの解決とノード・エッジの作成をやり直す（TypeScriptAnalyzer.revalidateWorkspace）
+ * ファイルの読み込みと構文解析は省けない（呼び出しの解決に型チェッカーを使うため、プログラムにはすべてのファイルが必要）
+ */
+export class AnalysisCache {
+  /** 抽出結果の形式を変えたら上げる（古いキャッシュを破棄させる） */
+  static readonly analyzerVersion = 2;
+  private static readonly saveDelay = 5000; // ミリ秒
+
+  private files = new Map<string, { hash: string; result: FileAnalysisResult }>();
+  private loaded?: Promise<void>;
+  private saveTimer?: ReturnType<typeof setTimeout>;
+  private graphSaveTimer?: ReturnType<typeof setTimeout>;
+  private hits = 0;
+  private misses = 0;
+
+  constructor(private readonly storageUri: vscode.Uri) {}
+
+  /**
+   * 保存されているキャッシュを読み込む（何度呼んでも読み込みは1回）
+   */
+  load(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.readJson<CacheFile>('analysis-cache.json').then((cacheFile) => {
+        if (cacheFile?.analyzerVersion === AnalysisCache.analyzerVersion) {
+          this.files = new Map(Object.entries(cacheFile.files));
+        }
+        console.log(`[LLM-CodeMap] Loaded analysis cache for ${this.files.size} files`);
+      });
+    }
+    return this.loaded;
+  }
+
+  /**
+   * 内容が変わっていないファイルの抽出結果を取得（解決処理で書き換えられるため複製を返す）
+   */
+  get(filePath: string, hash: string): FileAnalysisResult | undefined {
+    const entry = this.files.get(filePath);
+    if (!entry || entry.hash !== hash) {
+      this.misses++;
+      return undefined;
+    }
+    this.hits++;
+    return JSON.parse(JSON.stringify(entry.result));
+  }
+
+  /**
+   * キャッシュしている抽出結果の内容のハッシュを取得（ワーカーで変更のないファイルの抽出を省くため）
+   */
+  getHash(filePath: string): string | undefined {
+    return this.files.get(filePath)?.hash;
+  }
+
+  /**
+   * ファイルの抽出結果を記録（モジュール解決前の状態を複製して保持する）
+   */
+  set(filePath: string, hash: string, result: FileAnalysisResult): void {
+    this.files.set(filePath, { hash, result: JSON.parse(JSON.stringify(result)) });
+  }
+
+  delete(filePath: string): void {
+    this.files.delete(filePath);
+  }
+
+  /**
+   * キャッシュを保存（retainFilesを指定した場合はそれ以外のファイルの分を破棄する）
+   */
+  async save(retainFiles?: string[]): Promise<void> {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+      this.saveTimer = undefined;
+    }
+    if (retainFiles) {
+      const retained = new Set(retainFiles);
+      for (const filePath of Array.from(this.files.keys())) {
+        if (!retained.has(filePath)) {
+          this.files.delete(filePath);
+        }
+      }
+      console.log(`[LLM-CodeMap] Analysis cache: ${this.hits} hits, ${this.misses} misses`);
+      this.hits = 0;
+      this.misses = 0;
+    }
+
+    const cacheFile: CacheFile = {
+      analyzerVersion: AnalysisCache.analyzerVersion,
+      files: Object.fromEntries(this.files),
+    };
+    await this.writeJson('analysis-cache.json', cacheFile);
+  }
+
+  /**
+   * 保存をまとめて行うよう、少し待ってから保存する（差分解析のたびに書き込まないため）
+   */
+  scheduleSave(): void {
+    if (this.saveTimer) {
+      clearTimeout(this.saveTimer);
+    }
+    this.saveTimer = setTimeout(() => {
+      this.saveTimer = undefined;
+      this.save().catch((error) => {
+        console.warn(`[LLM-CodeMap] Failed to save analysis cache: ${error}`);
+      });
+    }, AnalysisCache.saveDelay);
+  }
+
+  /**
+   * 前回のグラフと解析の状態を読み込む（解析対象のフォルダが異なる場合はundefined）
+   */
+  async loadGraph(
+    workspacePaths: string[]
+  ): Promise<{ graph: GraphData; baseline?: AnalysisBaseline } | undefined> {
+    const graphFile = await this.readJson<GraphCacheFile>('graph-cache.json');
+    if (
+      graphFile?.analyzerVersion !== AnalysisCache.analyzerVersion ||
+      graphFile.workspacePaths.join('\n') !== workspacePaths.join('\n')
+    ) {
+      return undefined;
+    }
+    return { graph: graphFile.graph, baseline: graphFile.baseline };
+  }
+
+  async saveGraph(
+    workspacePaths: string[],
+    graph: GraphData,
+    baseline?: AnalysisBaseline
+  ): Promise<void> {
+    if (this.graphSaveTimer) {
+      clearTimeout(this.graphSaveTimer);
+      this.graphSaveTimer = undefined;
+    }
+    const graphFile: GraphCacheFile = {
+      analyzerVersion: AnalysisCache.analyzerVersion,
+      workspacePaths,
+      graph,
+      baseline,
+    };
+    await this.writeJson('graph-cache.json', graphFile);
+  }
+
+  /**
+   * 差分で更新されたグラフを、少し待ってから保存する
+   */
+  scheduleSaveGraph(
+    workspacePaths: string[],
+    getGraph: () => { graph: GraphData; baseline?: AnalysisBaseline }
+  ): void {
+    if (this.graphSaveTimer) {
+      clearTimeout(this.graphSaveTimer);
+    }
+    this.graphSaveTimer = setTimeout(() => {
+      this.graphSaveTimer = undefined;
+      const { graph, baseline } = getGraph();
+      this.saveGraph(workspacePaths, graph, baseline);
+    }, AnalysisCache.saveDelay);
+  }
+
+  private async readJson<T>(fileName: string): Promise<T | undefined> {
+    try {
+      const bytes = await vscode.workspace.fs.readFile(
+        vscode.Uri.joinPath(this.storageUri, fileName)
+      );
+      return JSON.parse(Buffer.from(bytes).toString('utf-8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  private async writeJson(fileName: string, content: unknown): Promise<void> {
+    try {
+      // 書き込みを待つ間に解析で内容が書き換えられないよう、先に文字列にする
+      const bytes = Buffer.from(JSON.stringify(content), 'utf-8');
+      await vscode.workspace.fs.createDirectory(this.storageUri);
+      await vscode.workspace.fs.writeFile(vscode.Uri.joinPath(this.storageUri, fileName), bytes);
+    } catch (error) {
+      console.warn(`[LLM-CodeMap] Failed to write ${fileName}: ${error}`);
+    }
+  }
+}
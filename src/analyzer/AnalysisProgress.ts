@@ -0,0 +1,56 @@
+import * as vscode from 'vscode';
+
+/**
+ * 解析の進捗を進捗通知（vscode.window.withProgress）に報告する
+ * 全体を0〜100%とし、各処理にはその一部の範囲を割り当てて処理済みのファイル数から進捗率を計算する
+ */
+export class AnalysisProgress {
+  private static readonly reportInterval = 100; // 報告の最小間隔（ミリ秒）
+
+  /**
+   * @param progress 報告先（withProgressのコールバックに渡されるもの）
+   * @param range 全体のうちこの進捗が占める範囲（%）
+   * @param state 同じ通知を共有する進捗の間で、報告済みの進捗率を共有する
+   */
+  constructor(
+    private readonly progress?: vscode.Progress<{ message?: string; increment?: number }>,
+    private readonly range: [number, number] = [0, 100],
+    private readonly state = { reported: 0, reportedAt: 0 }
+  ) {}
+
+  /**
+   * この進捗の範囲の一部を割り当てた進捗を作成（start・endはこの範囲に対する%）
+   */
+  slice(start: number, end: number): AnalysisProgress {
+    const [rangeStart, rangeEnd] = this.range;
+    const scale = (rangeEnd - rangeStart) / 100;
+    return new AnalysisProgress(
+      this.progress,
+      [rangeStart + start * scale, rangeStart + end * scale],
+      this.state
+    );
+  }
+
+  /**
+   * total件中completed件を処理したことを報告（頻繁な報告は間引く）
+   */
+  report(message: string, completed: number, total: number): void {
+    const now = Date.now();
+    if (completed < total && now - this.state.reportedAt < AnalysisProgress.reportInterval) {
+      return;
+    }
+    this.state.reportedAt = now;
+
+    const [rangeStart, rangeEnd] = this.range;
+    const percentage =
+      total > 0
+        ? rangeStart + ((rangeEnd - rangeStart) * Math.min(completed, total)) / total
+        : rangeEnd;
+    const increment = Math.max(0, percentage - this.state.reported);
+    this.state.reported += increment;
+    this.progress?.report({
+      message: total > 0 ? `${message} (${completed}/${total})` : message,
+      increment,
+    });
+  }
+}
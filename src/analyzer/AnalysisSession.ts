@@ -0,0 +1,425 @@
+import * as vscode from 'vscode';
+import { TypeScriptAnalyzer } from './TypeScriptAnalyzer';
+import { DependencyExtractor } from './DependencyExtractor';
+import {
+  AnalysisBaseline,
+  AnalysisResult,
+  ExclusionReason,
+  GraphData,
+  GraphDelta,
+  GraphExtractionOptions,
+} from './types';
+import { AnalysisCache } from './AnalysisCache';
+import { AnalysisProgress } from './AnalysisProgress';
+
+/**
+ * ファイルの変更を監視し、変更されたファイルだけを再解析する長期間の解析セッション
+ * （codemap.refreshで作成したグラフを、保存のたびに差分で更新する）
+ */
+export class AnalysisSession implements vscode.Disposable {
+  private static readonly sourcePattern = '**/*.{ts,tsx,js,jsx}';
+  private static readonly configPattern =
+    '**/{tsconfig.json,jsconfig.json,package.json,pnpm-workspace.yaml,lerna.json,.gitignore,.codemapignore}';
+  private static readonly refreshSettings = [
+    'codemap.include',
+    'codemap.exclude',
+    'codemap.respectGitignore',
+    'codemap.maxNodes',
+    'codemap.maxEdges',
+  ];
+  private static readonly debounceDelay = 300; // ミリ秒
+
+  // ツールの解析とは状態（プログラム・グラフ）を共有しないよう、専用のインスタンスを持つ
+  private readonly analyzer: TypeScriptAnalyzer;
+  private readonly extractor = new DependencyExtractor();
+  private analysisResult?: AnalysisResult;
+  private graphData?: GraphData; // 表示しているグラフ（ノード数・エッジ数の上限を適用したもの）
+  private graphOptions: GraphExtractionOptions = {}; // グラフを作成したときのオプション
+  private restored?: { graph: GraphData; baseline?: AnalysisBaseline }; // 前回のセッションから復元し、まだ再検証していないグラフ
+  private workspacePaths: string[] = [];
+  private watchers: vscode.Disposable[] = [];
+  private changedFiles = new Set<string>();
+  private deletedFiles = new Set<string>();
+  private debounceTimer?: ReturnType<typeof setTimeout>;
+  private queue: Promise<unknown> = Promise.resolve(); // 解析を順番に実行するためのキュー
+
+  private readonly _onDidUpdateGraph = new vscode.EventEmitter<GraphDelta>();
+  /** 差分解析でグラフが更新されたとき */
+  readonly onDidUpdateGraph = this._onDidUpdateGraph.event;
+
+  private readonly _onDidChangeConfiguration = new vscode.EventEmitter<void>();
+  /** tsconfig.json・package.json・除外ファイル・解析対象やグラフの上限の設定など、全体の再解析が必要な変更があったとき */
+  readonly onDidChangeConfiguration = this._onDidChangeConfiguration.event;
+
+  /**
+   * @param cache 抽出結果とグラフの永続キャッシュ（ワークスペースを開いていない場合はなし）
+   */
+  constructor(private readonly cache?: AnalysisCache) {
+    this.analyzer = new TypeScriptAnalyzer(cache);
+  }
+
+  /**
+   * 前回のセッションで保存したグラフを取得（解析はせず、すぐに表示するために使う）
+   * 表示したあとはrevalidateで、変更されたファイルの分だけ更新する
+   */
+  async restore(workspacePaths: string[]): Promise<GraphData | undefined> {
+    this.restored = await this.cache?.loadGraph(workspacePaths);
+    return this.restored?.graph;
+  }
+
+  /**
+   * restoreしたグラフを、前回から変更されたファイルの分だけ解析し直して更新し、差分を通知する
+   * （前回の解析の状態がない場合やオプションが異なる場合は、ワークスペース全体を解析して差分を求める）
+   * 以降のファイルの変更の監視も開始する。先にanalyzeした場合は何もしない
+   */
+  revalidate(
+    workspacePaths: string[],
+    options: GraphExtractionOptions = {},
+    progress?: AnalysisProgress
+  ): Promise<void> {
+    return this.enqueue(async () => {
+      const restored = this.restored;
+      this.restored = undefined;
+      if (!restored || this.analysisResult) {
+        return;
+      }
+
+      const baseline =
+        restored.baseline && JSON.stringify(restored.baseline.options) === JSON.stringify(options)
+          ? restored.baseline
+          : undefined;
+      let fullDelta: GraphDelta = {
+        upsertedNodes: [],
+        removedNodeIds: [],
+        upsertedEdges: [],
+        removedEdgeIds: [],
+      };
+      let analysisResult: AnalysisResult;
+      const revalidation = baseline
+        ? await this.analyzer.revalidateWorkspace(
+            workspacePaths,
+            baseline,
+            undefined,
+            progress?.slice(0, 70)
+          )
+        : undefined;
+      if (baseline && revalidation?.changeSet) {
+        analysisResult = revalidation.result;
+        fullDelta = this.extractor.restoreGraphData(
+          this.analyzer,
+          analysisResult,
+          baseline.graph,
+          revalidation.changeSet,
+          options
+        );
+      } else {
+        analysisResult =
+          revalidation?.result ??
+          (await this.analyzer.analyzeWorkspace(
+            workspacePaths,
+            undefined,
+            undefined,
+            progress?.slice(0, 70)
+          ));
+        await this.extractor.extractGraphData(
+          this.analyzer,
+          analysisResult,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          undefined,
+          options,
+          undefined,
+          progress?.slice(70, 100)
+        );
+      }
+
+      // 表示している（復元した）グラフとの差分を送る
+      const graphData = this.extractor.getBudgetedGraphData();
+      const delta = this.diffGraphs(restored.graph, graphData, fullDelta);
+      if (
+        JSON.stringify(restored.graph.truncation) !== JSON.stringify(graphData.truncation) ||
+        delta.upsertedNodes.length > 0 ||
+        delta.removedNodeIds.length > 0 ||
+        delta.upsertedEdges.length > 0 ||
+        delta.removedEdgeIds.length > 0
+      ) {
+        this._onDidUpdateGraph.fire(delta);
+      }
+
+      this.analysisResult = analysisResult;
+      this.graphData = graphData;
+      this.graphOptions = options;
+      this.workspacePaths = workspacePaths;
+      this.cache?.saveGraph(workspacePaths, graphData, this.createBaseline());
+      this.startWatching(workspacePaths);
+    });
+  }
+
+  /**
+   * ワークスペース全体を解析してグラフを作成し、以降のファイルの変更の監視を開始
+   * キャンセルされた場合は、次に解析するまで差分での更新を止める
+   */
+  analyze(
+    workspacePaths: string[],
+    options: GraphExtractionOptions = {},
+    token?: vscode.CancellationToken,
+    progress?: AnalysisProgress
+  ): Promise<GraphData> {
+    return this.enqueue(async () => {
+      this.restored = undefined;
+      this.stopWatching();
+      this.changedFiles.clear();
+      this.deletedFiles.clear();
+      this.analysisResult = undefined;
+      this.graphData = undefined;
+
+      const analysisResult = await this.analyzer.analyzeWorkspace(
+        workspacePaths,
+        undefined,
+        token,
+        progress?.slice(0, 70)
+      );
+      console.log(
+        `[LLM-CodeMap] Analysis result: ${analysisResult.files.length} files, ${analysisResult.functions.length} functions, ${analysisResult.classes.length} classes`
+      );
+      const graphData = await this.extractor.extractGraphData(
+        this.analyzer,
+        analysisResult,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        options,
+        token,
+        progress?.slice(70, 100)
+      );
+
+      this.analysisResult = analysisResult;
+      this.graphData = graphData;
+      this.graphOptions = options;
+      this.workspacePaths = workspacePaths;
+      this.cache?.saveGraph(workspacePaths, graphData, this.createBaseline());
+      this.startWatching(workspacePaths);
+      return graphData;
+    });
+  }
+
+  /**
+   * 指定したフォルダを解析したグラフがあるか（差分での更新が止まっている場合はなし）
+   */
+  hasGraph(workspacePaths: string[]): boolean {
+    return (
+      !!this.analysisResult &&
+      [...workspacePaths].sort().join('\n') === [...this.workspacePaths].sort().join('\n')
+    );
+  }
+
+  /**
+   * 差分で更新しているグラフに問い合わせる（フォーカス・経路・影響範囲など。ワークスペース全体は解析し直さない）
+   * ためている変更は先に反映する。グラフがない場合はエラー（hasGraphで確認してanalyzeする）
+   */
+  query<T>(
+    query: (
+      analyzer: TypeScriptAnalyzer,
+      extractor: DependencyExtractor,
+      analysisResult: AnalysisResult
+    ) => T
+  ): Promise<T> {
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+      this.enqueue(() => this.applyChanges()).catch((error) => {
+        console.error(`[LLM-CodeMap] Incremental analysis failed: ${error}`);
+      });
+    }
+    return this.enqueue(async () => {
+      if (!this.analysisResult) {
+        throw new Error('The workspace has not been analyzed yet.');
+      }
+      return query(this.analyzer, this.extractor, this.analysisResult);
+    });
+  }
+
+  /**
+   * ファイルが解析対象から除外される理由を取得（除外されない場合はundefined）
+   */
+  explainExclusion(
+    filePath: string,
+    workspacePaths: string[]
+  ): Promise<ExclusionReason | undefined> {
+    return this.analyzer.explainExclusion(filePath, workspacePaths);
+  }
+
+  dispose(): void {
+    this.stopWatching();
+    this._onDidUpdateGraph.dispose();
+    this._onDidChangeConfiguration.dispose();
+  }
+
+  /**
+   * 解析対象の各フォルダでソースファイルと設定ファイルの監視を開始
+   */
+  private startWatching(workspacePaths: string[]): void {
+    for (const workspacePath of workspacePaths) {
+      const sourceWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspacePath, AnalysisSession.sourcePattern)
+      );
+      sourceWatcher.onDidChange((uri) => this.onFileChanged(uri, false));
+      sourceWatcher.onDidCreate((uri) => this.onFileChanged(uri, false));
+      sourceWatcher.onDidDelete((uri) => this.onFileChanged(uri, true));
+
+      const configWatcher = vscode.workspace.createFileSystemWatcher(
+        new vscode.RelativePattern(workspacePath, AnalysisSession.configPattern)
+      );
+      const onConfigChanged = (uri: vscode.Uri) => {
+        if (!this.analyzer.getFileFilter()?.isIgnored(uri.fsPath)) {
+          console.log(`[LLM-CodeMap] Project configuration changed: ${uri.fsPath}`);
+          this._onDidChangeConfiguration.fire();
+        }
+      };
+      configWatcher.onDidChange(onConfigChanged);
+      configWatcher.onDidCreate(onConfigChanged);
+      configWatcher.onDidDelete(onConfigChanged);
+
+      this.watchers.push(sourceWatcher, configWatcher);
+    }
+
+    this.watchers.push(
+      vscode.workspace.onDidChangeConfiguration((event) => {
+        if (
+          AnalysisSession.refreshSettings.some((setting) => event.affectsConfiguration(setting))
+        ) {
+          console.log(`[LLM-CodeMap] Code map settings changed`);
+          this._onDidChangeConfiguration.fire();
+        }
+      })
+    );
+  }
+
+  private stopWatching(): void {
+    this.watchers.forEach((watcher) => watcher.dispose());
+    this.watchers = [];
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+  }
+
+  /**
+   * 変更をためておき、一定時間変更がなければまとめて再解析する（保存が続く場合に備える）
+   */
+  private onFileChanged(uri: vscode.Uri, deleted: boolean): void {
+    if (this.analyzer.getFileFilter()?.isExcluded(uri.fsPath)) {
+      return;
+    }
+    if (deleted) {
+      this.changedFiles.delete(uri.fsPath);
+      this.deletedFiles.add(uri.fsPath);
+    } else {
+      this.deletedFiles.delete(uri.fsPath);
+      this.changedFiles.add(uri.fsPath);
+    }
+
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      this.enqueue(() => this.applyChanges()).catch((error) => {
+        console.error(`[LLM-CodeMap] Incremental analysis failed: ${error}`);
+      });
+    }, AnalysisSession.debounceDelay);
+  }
+
+  /**
+   * ためておいた変更を再解析し、グラフの差分を通知
+   */
+  private async applyChanges(): Promise<void> {
+    const changedFiles = Array.from(this.changedFiles);
+    const deletedFiles = Array.from(this.deletedFiles);
+    this.changedFiles.clear();
+    this.deletedFiles.clear();
+    if (
+      !this.analysisResult ||
+      !this.graphData ||
+      (changedFiles.length === 0 && deletedFiles.length === 0)
+    ) {
+      return;
+    }
+
+    const changeSet = await this.analyzer.updateFiles(
+      this.analysisResult,
+      changedFiles,
+      deletedFiles
+    );
+    const fullDelta = this.extractor.updateGraphData(this.analyzer, this.analysisResult, changeSet);
+
+    // 上限を超えて縮約したグラフを表示している（または超えるようになった）場合は、縮約後のグラフ同士の差分を送る
+    const previous = this.graphData;
+    const graphData = this.extractor.getBudgetedGraphData();
+    const delta =
+      previous.truncation || graphData.truncation
+        ? this.diffGraphs(previous, graphData, fullDelta)
+        : fullDelta;
+    this.graphData = graphData;
+    if (
+      JSON.stringify(previous.truncation) !== JSON.stringify(graphData.truncation) ||
+      delta.upsertedNodes.length > 0 ||
+      delta.removedNodeIds.length > 0 ||
+      delta.upsertedEdges.length > 0 ||
+      delta.removedEdgeIds.length > 0
+    ) {
+      this._onDidUpdateGraph.fire(delta);
+      this.cache?.scheduleSaveGraph(this.workspacePaths, () => ({
+        graph: this.graphData ?? graphData,
+        baseline: this.createBaseline(),
+      }));
+    }
+  }
+
+  /**
+   * 次回の起動時に、変更のないファイルの解析を省くための解析の状態を作成
+   */
+  private createBaseline(): AnalysisBaseline | undefined {
+    return this.analysisResult
+      ? {
+          ...this.analyzer.createBaseline(this.analysisResult),
+          options: this.graphOptions,
+          graph: this.extractor.getGraphData(),
+        }
+      : undefined;
+  }
+
+  /**
+   * 縮約したグラフ同士の差分を作成
+   * 内容がその場で更新されるノード（ファイル数など）は、縮約前のグラフの差分から拾う
+   */
+  private diffGraphs(previous: GraphData, current: GraphData, fullDelta: GraphDelta): GraphDelta {
+    const touchedNodeIds = new Set(fullDelta.upsertedNodes.map((n) => n.id));
+    const previousNodes = new Map(previous.nodes.map((n) => [n.id, n]));
+    const previousEdges = new Map(previous.edges.map((e) => [e.id, e]));
+    const currentNodeIds = new Set(current.nodes.map((n) => n.id));
+    const currentEdgeIds = new Set(current.edges.map((e) => e.id));
+    const isUpdated = <T>(before: T | undefined, after: T) =>
+      before !== after && JSON.stringify(before) !== JSON.stringify(after);
+
+    return {
+      upsertedNodes: current.nodes.filter(
+        (node) => touchedNodeIds.has(node.id) || isUpdated(previousNodes.get(node.id), node)
+      ),
+      removedNodeIds: previous.nodes.map((n) => n.id).filter((id) => !currentNodeIds.has(id)),
+      upsertedEdges: current.edges.filter((edge) => isUpdated(previousEdges.get(edge.id), edge)),
+      removedEdgeIds: previous.edges.map((e) => e.id).filter((id) => !currentEdgeIds.has(id)),
+      truncation: current.truncation,
+    };
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -1,4 +1,5 @@
 import * as ts from 'typescript';
+import * as vscode from 'vscode';
 import * as path from 'path';
 import {
   GraphNode,
@@ -8,48 +9,81 @@ import {
   EdgeType,
   FunctionInfo,
   ClassInfo,
+  InterfaceInfo,
+  TypeAliasInfo,
+  EnumInfo,
+  VariableInfo,
   ImportInfo,
+  ImportBinding,
   ExportInfo,
+  ExternalPackageInfo,
+  WorkspacePackageInfo,
+  WorkspaceFolderInfo,
+  AnalysisResult,
+  GraphExtractionOptions,
+  GraphDelta,
+  FileChangeSet,
+  ImpactLevel,
+  FocusTraversal,
 } from './types';
 import { TypeScriptAnalyzer } from './TypeScriptAnalyzer';
 import { normalizePath } from '../utils/pathUtils';
+import { isTestFile } from '../utils/fileUtils';
+import { getCommonJsExportedFunctionName } from '../utils/commonJsUtils';
 import * as fs from 'fs';
 import { ICodemapParameters } from '../tools/types';
+import { AnalysisProgress } from './AnalysisProgress';
+import { checkCancellation } from '../utils/cancellationUtils';
+import { GraphBudget } from './GraphBudget';
+import { GraphIndex, isContainsEdge } from './GraphIndex';
+import { IMPACT_EDGE_TYPES, ImpactAnalyzer } from './ImpactAnalyzer';
+import { GraphPathFinder } from './GraphPathFinder';
 
 /**
  * 依存関係抽出エンジン
  */
 export class DependencyExtractor {
-  private nodeMap: Map<string, GraphNode> = new Map();
-  private edgeMap: Map<string, GraphEdge> = new Map();
-  private fileToNodes: Map<string, string[]> = new Map(); // ファイルパス -> ノードIDの配列
+  private readonly graph = new GraphIndex(); // ノード・エッジと、名前・ファイル・隣接関係の索引
+  private importBindings: Map<string, Map<string, ImportBinding>> = new Map(); // ファイルパス -> ローカル名 -> インポート
+  private classInfos: Map<string, ClassInfo> = new Map(); // クラスノードID -> クラス情報
+  private implementersCache: Map<string, string[]> = new Map(); // インターフェースノードID -> 実装クラスのノードID
+  private options: GraphExtractionOptions = {};
 
   /**
    * 解析結果からグラフデータを生成
+   * tokenでキャンセルされた場合は vscode.CancellationError を投げる
    */
   async extractGraphData(
     analyzer: TypeScriptAnalyzer,
-    analysisResult: {
-      files: any[];
-      functions: FunctionInfo[];
-      classes: ClassInfo[];
-      imports: ImportInfo[];
-      exports: ExportInfo[];
-    },
+    analysisResult: AnalysisResult,
     targetFile?: string,
     relatedFiles?: string[],
     relatedFunctions?: Array<{ name: string; filePath?: string }>,
     relatedClasses?: Array<{ name: string; filePath?: string }>,
-    focusNodes?: string[]
+    focusNodes?: string[],
+    options: GraphExtractionOptions = {},
+    token?: vscode.CancellationToken,
+    progress?: AnalysisProgress
   ): Promise<GraphData> {
     console.log(`[LLM-CodeMap] Starting graph data extraction...`);
-    this.nodeMap.clear();
-    this.edgeMap.clear();
-    this.fileToNodes.clear();
-
-    // 1. ファイルノードを作成
+    this.options = options;
+    this.graph.clear();
+    this.importBindings.clear();
+    this.classInfos.clear();
+    this.implementersCache.clear();
+
+    // 1. ファイルノードを作成（モノレポの場合はワークスペースパッケージのノードを親にする）
+    //    マルチルートワークスペースではワークスペースフォルダごとのノードも作成し、その下にまとめる
+    if (analysisResult.workspaceFolders.length > 1) {
+      for (const workspaceFolder of analysisResult.workspaceFolders) {
+        this.createWorkspaceFolderNode(workspaceFolder);
+      }
+    }
+    for (const workspacePackage of analysisResult.workspacePackages) {
+      this.createWorkspacePackageNode(workspacePackage);
+    }
     for (const file of analysisResult.files) {
-      this.createFileNode(file.path);
+      this.createFileNode(file.path, file.project, file.workspacePackage, file.workspaceFolder);
     }
 
     // 2. 関数ノードを作成
@@ -69,34 +103,84 @@ export class DependencyExtractor {
       }
     }
 
+    // 4-2. インターフェース・型エイリアス・列挙型ノードを作成
+    for (const iface of analysisResult.interfaces) {
+      this.createInterfaceNode(iface);
+    }
+    for (const typeAlias of analysisResult.typeAliases) {
+      this.createTypeAliasNode(typeAlias);
+    }
+    for (const enumInfo of analysisResult.enums) {
+      this.createEnumNode(enumInfo);
+    }
+
+    // 4-3. モジュールレベルの変数ノードを作成
+    for (const variable of analysisResult.variables) {
+      this.createVariableNode(variable);
+    }
+
     // 5. インポート/エクスポート関係のエッジを作成
     console.log(
       `[LLM-CodeMap] Creating import/export edges from ${analysisResult.imports.length} imports...`
     );
     for (const importInfo of analysisResult.imports) {
-      this.createImportEdges(importInfo, analyzer);
+      this.createImportEdges(importInfo);
+      this.registerImportBindings(importInfo);
+    }
+    for (const exportInfo of analysisResult.exports) {
+      this.createReExportEdges(exportInfo);
+    }
+    if (analysisResult.workspacePackages.length > 0) {
+      this.createWorkspaceDependencyEdges(analysisResult);
     }
-    console.log(`[LLM-CodeMap] Created ${this.edgeMap.size} edges so far`);
+    console.log(`[LLM-CodeMap] Created ${this.graph.edgeCount} edges so far`);
 
-    // 6. 関数呼び出し関係のエッジを作成
-    for (const file of analysisResult.files) {
+    // 6. クラス継承・実装関係、インターフェース継承のエッジを作成
+    //    （メソッド呼び出しの解決で継承関係を使うため、呼び出しより先に作成する）
+    for (const cls of analysisResult.classes) {
+      this.createInheritanceEdges(cls);
+    }
+    for (const iface of analysisResult.interfaces) {
+      this.createInterfaceInheritanceEdges(iface);
+    }
+
+    // 7. 関数呼び出し関係のエッジを作成
+    const callProgress = progress?.slice(0, 60);
+    for (const [index, file] of analysisResult.files.entries()) {
+      await checkCancellation(token);
+      callProgress?.report('Extracting calls', index + 1, analysisResult.files.length);
       const sourceFile = analyzer.getSourceFile(file.path);
-      if (sourceFile) {
-        this.extractCallEdges(sourceFile, file.path, analyzer);
+      const program = analyzer.getProgram(file.path);
+      if (sourceFile && program) {
+        this.extractCallEdges(sourceFile, file.path, program);
       }
     }
 
-    // 7. クラス継承・実装関係のエッジを作成
-    for (const cls of analysisResult.classes) {
-      this.createInheritanceEdges(cls, analyzer);
+    // 7-2. 変数の読み書きのエッジを作成
+    const variableNames = new Set(analysisResult.variables.map((v) => v.name));
+    if (variableNames.size > 0) {
+      const variableProgress = progress?.slice(60, 100);
+      for (const [index, file] of analysisResult.files.entries()) {
+        await checkCancellation(token);
+        variableProgress?.report(
+          'Extracting variable access',
+          index + 1,
+          analysisResult.files.length
+        );
+        const sourceFile = analyzer.getSourceFile(file.path);
+        const program = analyzer.getProgram(file.path);
+        if (sourceFile && program) {
+          this.extractVariableAccessEdges(sourceFile, file.path, program, variableNames);
+        }
+      }
     }
 
     // 8. 親子関係のエッジを作成（ファイルと関数/クラス/メソッドの間）
     this.createParentChildEdges();
 
-    let result = {
-      nodes: Array.from(this.nodeMap.values()),
-      edges: Array.from(this.edgeMap.values()),
+    let result: GraphData = {
+      nodes: this.graph.getNodes(),
+      edges: this.graph.getEdges(),
     };
 
     // LLMが指定したノードやファイルがある場合、フィルタリング
@@ -115,29 +199,525 @@ export class DependencyExtractor {
       );
     }
 
+    // ノード数・エッジ数の上限を超える場合は、フォルダ単位などに縮約して表示できる大きさにする
+    result = this.applyBudget(result);
+
     console.log(
       `[LLM-CodeMap] Graph data extraction complete: ${result.nodes.length} nodes, ${result.edges.length} edges`
     );
     return result;
   }
 
+  /**
+   * 直前に作成・更新したグラフ（フィルタリング前）を取得
+   */
+  getGraphData(): GraphData {
+    return {
+      nodes: this.graph.getNodes(),
+      edges: this.graph.getEdges(),
+    };
+  }
+
+  /**
+   * 直前に作成・更新したグラフに、ノード数・エッジ数の上限を適用したもの（Webviewに表示するグラフ）
+   */
+  getBudgetedGraphData(): GraphData {
+    return this.applyBudget(this.getGraphData());
+  }
+
+  /**
+   * 直前に作成したグラフを、指定したノードを中心にフィルタリング
+   * @param options 辿り方（depth・direction・edgeTypesなど。未指定の場合は直前のextractGraphDataのオプション）
+   */
+  focusGraphData(
+    analysisResult: AnalysisResult,
+    focusNodes: string[],
+    options: GraphExtractionOptions = this.options
+  ): GraphData {
+    return this.applyBudget(
+      this.filterGraphByLLMContext(
+        this.getGraphData(),
+        analysisResult,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        focusNodes,
+        this.getFocusTraversal(options)
+      )
+    );
+  }
+
+  /**
+   * フォーカスしたノードからの実際の辿り方を取得
+   * 向きを指定した場合は反対の向きの深さを0にし、呼び出し元・先はcallエッジのみ辿る
+   * @param options 未指定の場合は直前のextractGraphDataのオプション
+   */
+  getFocusTraversal(options: GraphExtractionOptions = this.options): FocusTraversal {
+    const { depth, direction = 'both' } = options;
+    let { inboundDepth = depth, outboundDepth = depth, edgeTypes } = options;
+    if (direction === 'dependents' || direction === 'callers') {
+      outboundDepth = 0;
+    } else if (direction === 'dependencies' || direction === 'callees') {
+      inboundDepth = 0;
+    }
+    if (direction === 'callers' || direction === 'callees') {
+      edgeTypes = [EdgeType.Call];
+    }
+    return { inboundDepth, outboundDepth, edgeTypes: edgeTypes?.length ? edgeTypes : undefined };
+  }
+
+  /**
+   * 直前に作成したグラフから、ファイルの指定位置（先頭からの文字数）を含む最も内側の宣言のノードIDを取得
+   * クラスの場合はそのメソッドも含め、宣言の外の場合はファイルのノードを返す（グラフにないファイルは空）
+   */
+  findNodeIdsAtPosition(
+    analyzer: TypeScriptAnalyzer,
+    filePath: string,
+    position: number
+  ): string[] {
+    const sourceFile = analyzer.getSourceFile(filePath);
+    if (!sourceFile) {
+      return [];
+    }
+
+    // 位置を含む宣言を外側から順に集める
+    const declarations: ts.NamedDeclaration[] = [];
+    const visit = (node: ts.Node): true | undefined => {
+      if (position < node.getStart(sourceFile) || position > node.getEnd()) {
+        return undefined;
+      }
+      if (
+        ts.isFunctionLike(node) ||
+        ts.isClassLike(node) ||
+        ts.isVariableDeclaration(node) ||
+        ts.isPropertyDeclaration(node) ||
+        ts.isInterfaceDeclaration(node) ||
+        ts.isTypeAliasDeclaration(node) ||
+        ts.isEnumDeclaration(node)
+      ) {
+        declarations.push(node);
+      }
+      ts.forEachChild(node, visit);
+      return true;
+    };
+    ts.forEachChild(sourceFile, visit);
+
+    for (const declaration of declarations.reverse()) {
+      const name = declaration.name;
+      if (!name || !ts.isIdentifier(name)) {
+        continue;
+      }
+      const parentClassName = this.getClassName(declaration.parent);
+      const candidates = parentClassName
+        ? [`method:${filePath}:${parentClassName}.${name.text}`]
+        : ['function', 'class', 'interface', 'type', 'variable'].map(
+            (prefix) => `${prefix}:${filePath}:${name.text}`
+          );
+      const nodeId = candidates.find((id) => this.graph.hasNode(id));
+      if (nodeId) {
+        const methods = this.classInfos.get(nodeId)?.methods ?? [];
+        return [
+          nodeId,
+          ...methods.map((m) => `method:${m.filePath}:${name.text}.${m.name}`),
+        ].filter((id) => this.graph.hasNode(id));
+      }
+    }
+
+    const fileNodeId = `file:${filePath}`;
+    return this.graph.hasNode(fileNodeId) ? [fileNodeId] : [];
+  }
+
+  /**
+   * 直前に作成したグラフで、fromからtoへ依存の向きに辿れる経路を短い順に検索し、経路だけのグラフを返す
+   * from・toはノードID、ファイルパス（相対パス・ファイル名）またはシンボル名（Class.methodも可）で指定する
+   * ファイル・クラスはその中のシンボルも端点にし、辿るエッジの種類は直前のextractGraphDataのオプションに従う
+   * @param maxLength 経路の長さ（エッジの数）の上限（未指定の場合は無制限）
+   */
+  findPathGraphData(
+    analysisResult: AnalysisResult,
+    from: string,
+    to: string,
+    maxPaths: number,
+    maxLength?: number
+  ): GraphData {
+    const sourceIds = this.resolveNodeSpec(analysisResult, from);
+    const targetIds = this.resolveNodeSpec(analysisResult, to);
+    const paths = new GraphPathFinder(this.graph, this.options.edgeTypes).findPaths(
+      sourceIds,
+      targetIds,
+      maxPaths,
+      maxLength
+    );
+    console.log(`[LLM-CodeMap] Found ${paths.length} paths from ${from} to ${to}`);
+
+    // 経路上のノード・エッジに何番目（1から）の経路かを記録し、ノードは親（クラス・ファイルなど）とともに表示する
+    const nodePathIndexes = new Map<string, number[]>();
+    const edgePathIndexes = new Map<string, number[]>();
+    paths.forEach((graphPath, index) => {
+      graphPath.nodeIds.forEach((id) =>
+        nodePathIndexes.set(id, [...(nodePathIndexes.get(id) ?? []), index + 1])
+      );
+      graphPath.edgeIds.forEach((id) =>
+        edgePathIndexes.set(id, [...(edgePathIndexes.get(id) ?? []), index + 1])
+      );
+    });
+    const includedNodeIds = new Set<string>();
+    for (const nodeId of nodePathIndexes.keys()) {
+      for (
+        let id: string | undefined = nodeId;
+        id && !includedNodeIds.has(id);
+        id = this.graph.getNode(id)?.parentId
+      ) {
+        includedNodeIds.add(id);
+      }
+    }
+
+    return {
+      nodes: this.graph
+        .getNodes()
+        .filter((node) => includedNodeIds.has(node.id))
+        .map((node) => {
+          const pathIndexes = nodePathIndexes.get(node.id);
+          return pathIndexes ? { ...node, metadata: { ...node.metadata, pathIndexes } } : node;
+        }),
+      edges: this.graph
+        .getEdges()
+        .filter(
+          (edge) =>
+            edgePathIndexes.has(edge.id) ||
+            (edge.type === EdgeType.Reference &&
+              edge.label === 'contains' &&
+              includedNodeIds.has(edge.source) &&
+              includedNodeIds.has(edge.target))
+        )
+        .map((edge) => {
+          const pathIndexes = edgePathIndexes.get(edge.id);
+          return pathIndexes ? { ...edge, metadata: { ...edge.metadata, pathIndexes } } : edge;
+        }),
+      paths,
+    };
+  }
+
+  /**
+   * 直前に作成したグラフで、targetを変更した場合に影響を受ける（推移的に依存する）ノードとファイルを検索し、
+   * 影響範囲だけのグラフを返す（targetの指定方法はfindPathGraphDataと同じ）
+   * 辿るエッジの種類は直前のextractGraphDataのオプションに従う（未指定の場合はimport・call・extends・implements・instantiates・reads・writes）
+   * @param maxDepth 辿る距離の上限（未指定の場合は無制限）
+   */
+  findImpactGraphData(
+    analysisResult: AnalysisResult,
+    target: string,
+    maxDepth?: number
+  ): GraphData {
+    const startNodeIds = this.resolveNodeSpec(analysisResult, target);
+    const impactAnalyzer = new ImpactAnalyzer(
+      this.graph,
+      this.options.edgeTypes?.length ? this.options.edgeTypes : IMPACT_EDGE_TYPES
+    );
+    const distances = impactAnalyzer.findDependents(startNodeIds, maxDepth);
+    console.log(`[LLM-CodeMap] Found ${distances.size} nodes affected by changes to ${target}`);
+
+    // ファイルの距離は、その中で最も近いノードの距離
+    const fileDistances = new Map<string, number>();
+    for (const [nodeId, distance] of distances) {
+      const filePath = this.graph.getNode(nodeId)!.filePath;
+      if (distance < (fileDistances.get(filePath) ?? Infinity)) {
+        fileDistances.set(filePath, distance);
+      }
+    }
+    const levels: ImpactLevel[] = [];
+    for (const [nodeId, distance] of distances) {
+      levels[distance] ??= { distance, nodeIds: [], filePaths: [] };
+      levels[distance].nodeIds.push(nodeId);
+    }
+    for (const [filePath, distance] of fileDistances) {
+      levels[distance].filePaths.push(filePath);
+    }
+    const testFiles = Array.from(fileDistances.keys()).filter((filePath) =>
+      isTestFile(this.getWorkspaceRelativePath(analysisResult, filePath))
+    );
+
+    // 影響を受けるノードは親（クラス・ファイルなど）とともに表示し、距離とテストファイルかどうかを記録する
+    const includedNodeIds = new Set<string>();
+    for (const nodeId of distances.keys()) {
+      for (
+        let id: string | undefined = nodeId;
+        id && !includedNodeIds.has(id);
+        id = this.graph.getNode(id)?.parentId
+      ) {
+        includedNodeIds.add(id);
+      }
+    }
+    const testFileSet = new Set(testFiles);
+    const impactEdgeIds = new Set(impactAnalyzer.getImpactEdges(distances).map((e) => e.id));
+    const graphData = this.applyBudget({
+      nodes: this.graph
+        .getNodes()
+        .filter((node) => includedNodeIds.has(node.id))
+        .map((node) => {
+          const impactDistance =
+            node.type === NodeType.File ? fileDistances.get(node.filePath) : distances.get(node.id);
+          if (impactDistance === undefined) {
+            return node;
+          }
+          const isTest = node.type === NodeType.File && testFileSet.has(node.filePath);
+          return {
+            ...node,
+            metadata: { ...node.metadata, impactDistance, ...(isTest ? { isTestFile: true } : {}) },
+          };
+        }),
+      edges: this.graph
+        .getEdges()
+        .filter(
+          (edge) =>
+            impactEdgeIds.has(edge.id) ||
+            (isContainsEdge(edge) &&
+              includedNodeIds.has(edge.source) &&
+              includedNodeIds.has(edge.target))
+        ),
+    });
+    return { ...graphData, impact: { startNodeIds, levels, testFiles } };
+  }
+
+  /**
+   * ファイルのパスを、それを含むワークスペースフォルダからの相対パスにする（どれにも含まれない場合はそのまま）
+   */
+  private getWorkspaceRelativePath(analysisResult: AnalysisResult, filePath: string): string {
+    const folder = analysisResult.workspaceFolders.find((f) => {
+      const relativePath = path.relative(f.path, filePath);
+      return !relativePath.startsWith('..') && !path.isAbsolute(relativePath);
+    });
+    return folder ? path.relative(folder.path, filePath) : filePath;
+  }
+
+  /**
+   * 経路の端点・影響範囲の始点の指定から、ノードのIDを取得（ファイル・クラスはその中のシンボルも含める）
+   */
+  private resolveNodeSpec(analysisResult: AnalysisResult, spec: string): string[] {
+    let nodeIds = this.graph.hasNode(spec) ? [spec] : [];
+    // パスらしくない指定はシンボル名として検索し、見つからなければファイルとして検索する
+    if (nodeIds.length === 0 && !/[\\/]|\.[cm]?[jt]sx?$/.test(spec)) {
+      nodeIds = [
+        NodeType.Function,
+        NodeType.Class,
+        NodeType.Method,
+        NodeType.Interface,
+        NodeType.Type,
+        NodeType.Variable,
+      ].flatMap((type) => this.graph.findNodeIdsByName(spec, type));
+    }
+    if (nodeIds.length === 0) {
+      const filePath = this.findTargetFilePath(spec, analysisResult.files);
+      if (filePath && this.graph.hasNode(`file:${filePath}`)) {
+        nodeIds = [`file:${filePath}`];
+      }
+    }
+    if (nodeIds.length === 0) {
+      throw new Error(`No file or symbol named "${spec}" was found in the code map.`);
+    }
+
+    return nodeIds.flatMap((nodeId) => {
+      const node = this.graph.getNode(nodeId)!;
+      if (node.type === NodeType.File) {
+        return this.graph.getNodeIdsInFile(node.filePath);
+      }
+      if (node.type === NodeType.Class) {
+        return [
+          nodeId,
+          ...this.graph
+            .getNodeIdsInFile(node.filePath)
+            .filter((id) => this.graph.getNode(id)?.parentId === nodeId),
+        ];
+      }
+      return [nodeId];
+    });
+  }
+
+  private applyBudget(graphData: GraphData): GraphData {
+    return new GraphBudget(this.options.maxNodes ?? 0, this.options.maxEdges ?? 0).apply(graphData);
+  }
+
+  /**
+   * 前回保存したグラフ（フィルタリングなし）を読み込み、変更されたファイルの分だけ作り直す
+   * （起動時の再検証で使う。analysisResultは変更のないファイルも含めて解決済みであること）
+   * 前回のグラフとの差分を返す
+   */
+  restoreGraphData(
+    analyzer: TypeScriptAnalyzer,
+    analysisResult: AnalysisResult,
+    baselineGraph: GraphData,
+    changeSet: FileChangeSet,
+    options: GraphExtractionOptions = {}
+  ): GraphDelta {
+    this.options = options;
+    this.graph.clear();
+    this.importBindings.clear();
+    this.classInfos.clear();
+    this.implementersCache.clear();
+
+    baselineGraph.nodes.forEach((node) => this.graph.setNode(node));
+    baselineGraph.edges.forEach((edge) => this.graph.setEdge(edge));
+    for (const cls of analysisResult.classes) {
+      this.classInfos.set(`class:${cls.filePath}:${cls.name}`, cls);
+    }
+    for (const importInfo of analysisResult.imports) {
+      this.registerImportBindings(importInfo);
+    }
+
+    return this.updateGraphData(analyzer, analysisResult, changeSet);
+  }
+
+  /**
+   * 差分解析の結果から、変更されたファイルの分だけノードとエッジを作り直す
+   * 直前のextractGraphData（フィルタリングなし）で作成したグラフを更新し、前回との差分を返す
+   */
+  updateGraphData(
+    analyzer: TypeScriptAnalyzer,
+    analysisResult: AnalysisResult,
+    changeSet: FileChangeSet
+  ): GraphDelta {
+    const previousNodes = new Map(this.graph.getNodes().map((n) => [n.id, n]));
+    const previousEdges = new Map(this.graph.getEdges().map((e) => [e.id, e]));
+    const replacedFiles = new Set([...changeSet.changedFiles, ...changeSet.removedFiles]);
+    const reextractedFiles = new Set([...replacedFiles, ...changeSet.dependentFiles]);
+    const touchedNodeIds = new Set<string>(); // 内容だけが変わったノード（ファイル数など）
+
+    // 作り直すノードへのエッジを持つファイルも作り直す（インポートで辿れない、インターフェース経由の呼び出しや
+    // 名前で解決した継承・型のエッジは、変更されたファイルをインポートしていないファイルからも出ている）
+    for (const filePath of replacedFiles) {
+      for (const nodeId of this.graph.getNodeIdsInFile(filePath)) {
+        for (const edge of this.graph.getIncomingEdges(nodeId)) {
+          const source = this.graph.getNode(edge.source);
+          if (source && this.graph.hasNode(`file:${source.filePath}`)) {
+            reextractedFiles.add(source.filePath);
+          }
+        }
+      }
+    }
+
+    // 1. 変更・削除されたファイルのノードを削除
+    const replacedNodes = Array.from(replacedFiles).flatMap((filePath) =>
+      this.graph.getNodeIdsInFile(filePath).map((nodeId) => this.graph.getNode(nodeId)!)
+    );
+    for (const node of replacedNodes) {
+      for (
+        let parent =
+          node.type === NodeType.File && node.parentId
+            ? this.graph.getNode(node.parentId)
+            : undefined;
+        parent;
+        parent = parent.parentId ? this.graph.getNode(parent.parentId) : undefined
+      ) {
+        parent.metadata!.fileCount--;
+        touchedNodeIds.add(parent.id);
+      }
+      this.graph.deleteNode(node.id);
+      this.classInfos.delete(node.id);
+    }
+
+    // 2. 作り直すファイルから出ているエッジ、削除したノードへのエッジ、パッケージ間のエッジを削除
+    for (const edge of this.graph.getEdges()) {
+      const sourceFilePath = previousNodes.get(edge.source)?.filePath;
+      if (
+        !this.graph.hasNode(edge.source) ||
+        !this.graph.hasNode(edge.target) ||
+        (sourceFilePath && reextractedFiles.has(sourceFilePath)) ||
+        edge.id.startsWith('import:package:')
+      ) {
+        this.graph.deleteEdge(edge.id);
+      }
+    }
+    for (const filePath of reextractedFiles) {
+      this.importBindings.delete(filePath);
+    }
+    this.implementersCache.clear();
+
+    // 3. 変更されたファイルのノードを作成
+    const isChanged = (item: { filePath: string }) => replacedFiles.has(item.filePath);
+    for (const file of analysisResult.files.filter((f) => replacedFiles.has(f.path))) {
+      this.createFileNode(file.path, file.project, file.workspacePackage, file.workspaceFolder);
+      const fileNode = this.graph.getNode(`file:${file.path}`)!;
+      for (let parentId = fileNode.parentId; parentId; ) {
+        touchedNodeIds.add(parentId);
+        parentId = this.graph.getNode(parentId)?.parentId;
+      }
+    }
+    analysisResult.functions.filter(isChanged).forEach((func) => this.createFunctionNode(func));
+    const changedClasses = analysisResult.classes.filter(isChanged);
+    for (const cls of changedClasses) {
+      this.createClassNode(cls);
+      for (const method of cls.methods) {
+        this.createMethodNode(method, cls);
+      }
+    }
+    analysisResult.interfaces.filter(isChanged).forEach((i) => this.createInterfaceNode(i));
+    analysisResult.typeAliases.filter(isChanged).forEach((t) => this.createTypeAliasNode(t));
+    analysisResult.enums.filter(isChanged).forEach((e) => this.createEnumNode(e));
+    analysisResult.variables.filter(isChanged).forEach((v) => this.createVariableNode(v));
+
+    // 4. 作り直すファイルから出ているエッジを作成（順序はextractGraphDataと同じ）
+    const isReextracted = (item: { filePath: string }) => reextractedFiles.has(item.filePath);
+    for (const importInfo of analysisResult.imports.filter(isReextracted)) {
+      this.createImportEdges(importInfo);
+      this.registerImportBindings(importInfo);
+    }
+    for (const exportInfo of analysisResult.exports.filter(isReextracted)) {
+      this.createReExportEdges(exportInfo);
+    }
+    if (analysisResult.workspacePackages.length > 0) {
+      this.createWorkspaceDependencyEdges(analysisResult);
+    }
+    analysisResult.classes.filter(isReextracted).forEach((c) => this.createInheritanceEdges(c));
+    for (const iface of analysisResult.interfaces.filter(isReextracted)) {
+      this.createInterfaceInheritanceEdges(iface);
+    }
+    const variableNames = new Set(analysisResult.variables.map((v) => v.name));
+    for (const filePath of reextractedFiles) {
+      const sourceFile = analyzer.getSourceFile(filePath);
+      const program = analyzer.getProgram(filePath);
+      if (sourceFile && program && this.graph.hasNode(`file:${filePath}`)) {
+        this.extractCallEdges(sourceFile, filePath, program);
+        if (variableNames.size > 0) {
+          this.extractVariableAccessEdges(sourceFile, filePath, program, variableNames);
+        }
+      }
+    }
+    this.createParentChildEdges();
+
+    // 5. 前回のグラフとの差分を作成
+    const isUpdated = <T>(previous: T | undefined, current: T) =>
+      previous !== current && JSON.stringify(previous) !== JSON.stringify(current);
+    const delta: GraphDelta = {
+      upsertedNodes: this.graph
+        .getNodes()
+        .filter(
+          (node) => touchedNodeIds.has(node.id) || isUpdated(previousNodes.get(node.id), node)
+        ),
+      removedNodeIds: Array.from(previousNodes.keys()).filter((id) => !this.graph.hasNode(id)),
+      upsertedEdges: this.graph
+        .getEdges()
+        .filter((edge) => isUpdated(previousEdges.get(edge.id), edge)),
+      removedEdgeIds: Array.from(previousEdges.keys()).filter((id) => !this.graph.hasEdge(id)),
+    };
+    console.log(
+      `[LLM-CodeMap] Graph delta: ${delta.upsertedNodes.length} nodes upserted, ${delta.removedNodeIds.length} removed, ${delta.upsertedEdges.length} edges upserted, ${delta.removedEdgeIds.length} removed`
+    );
+    return delta;
+  }
+
   /**
    * LLMが提供したコンテキストに基づいてグラフをフィルタリング
    */
   private filterGraphByLLMContext(
     graphData: GraphData,
-    analysisResult: {
-      files: any[];
-      functions: FunctionInfo[];
-      classes: ClassInfo[];
-      imports: ImportInfo[];
-      exports: ExportInfo[];
-    },
+    analysisResult: AnalysisResult,
     targetFile?: string,
     relatedFiles?: string[],
     relatedFunctions?: Array<{ name: string; filePath?: string }>,
     relatedClasses?: Array<{ name: string; filePath?: string }>,
-    focusNodes?: string[]
+    focusNodes?: string[],
+    traversal: FocusTraversal = this.getFocusTraversal()
   ): GraphData {
     console.log(`[LLM-CodeMap] Filtering graph with LLM context...`);
 
@@ -147,7 +727,7 @@ export class DependencyExtractor {
     if (focusNodes && focusNodes.length > 0) {
       console.log(`[LLM-CodeMap] Using focusNodes: ${focusNodes.length} nodes`);
       for (const nodeId of focusNodes) {
-        if (graphData.nodes.some((n) => n.id === nodeId)) {
+        if (this.graph.hasNode(nodeId)) {
           relatedNodeIds.add(nodeId);
         } else {
           console.warn(`[LLM-CodeMap] Focus node not found: ${nodeId}`);
@@ -174,11 +754,7 @@ export class DependencyExtractor {
           const fileNodeId = `file:${filePath}`;
           relatedNodeIds.add(fileNodeId);
           // ファイル内のすべてのノードも追加
-          for (const node of graphData.nodes) {
-            if (node.filePath === filePath) {
-              relatedNodeIds.add(node.id);
-            }
-          }
+          this.graph.getNodeIdsInFile(filePath).forEach((id) => relatedNodeIds.add(id));
         }
       }
     }
@@ -192,33 +768,21 @@ export class DependencyExtractor {
           const filePath = this.findTargetFilePath(func.filePath, analysisResult.files);
           if (filePath) {
             const funcNodeId = `function:${filePath}:${func.name}`;
-            const fileNodeId = `file:${filePath}`;
 
             // 関数ノードが存在するか確認
-            const funcNode = graphData.nodes.find((n) => n.id === funcNodeId);
-            if (funcNode) {
+            if (this.graph.hasNode(funcNodeId)) {
+              // ファイルノードは親として追加される
               relatedNodeIds.add(funcNodeId);
-              // ファイルノードも追加
-              relatedNodeIds.add(fileNodeId);
-              console.log(
-                `[LLM-CodeMap] Added function node: ${funcNodeId} and file node: ${fileNodeId}`
-              );
+              console.log(`[LLM-CodeMap] Added function node: ${funcNodeId}`);
             } else {
               console.warn(`[LLM-CodeMap] Function node not found: ${funcNodeId}`);
             }
           }
         } else {
           // ファイルパスが指定されていない場合、名前で検索
-          for (const analysisFunc of analysisResult.functions) {
-            if (analysisFunc.name === func.name) {
-              const funcNodeId = `function:${analysisFunc.filePath}:${analysisFunc.name}`;
-              const fileNodeId = `file:${analysisFunc.filePath}`;
-              relatedNodeIds.add(funcNodeId);
-              relatedNodeIds.add(fileNodeId);
-              console.log(
-                `[LLM-CodeMap] Added function node: ${funcNodeId} and file node: ${fileNodeId}`
-              );
-            }
+          for (const funcNodeId of this.graph.findNodeIdsByName(func.name, NodeType.Function)) {
+            relatedNodeIds.add(funcNodeId);
+            console.log(`[LLM-CodeMap] Added function node: ${funcNodeId}`);
           }
         }
       }
@@ -233,106 +797,40 @@ export class DependencyExtractor {
           const filePath = this.findTargetFilePath(cls.filePath, analysisResult.files);
           if (filePath) {
             const classNodeId = `class:${filePath}:${cls.name}`;
-            if (graphData.nodes.some((n) => n.id === classNodeId)) {
+            if (this.graph.hasNode(classNodeId)) {
+              // ファイルノードは親として追加される
               relatedNodeIds.add(classNodeId);
-              // ファイルノードも追加
-              relatedNodeIds.add(`file:${filePath}`);
               // クラス内のメソッドも追加
-              for (const analysisClass of analysisResult.classes) {
-                if (analysisClass.filePath === filePath && analysisClass.name === cls.name) {
-                  for (const method of analysisClass.methods) {
-                    relatedNodeIds.add(`method:${method.filePath}:${cls.name}.${method.name}`);
-                  }
-                }
+              for (const method of this.classInfos.get(classNodeId)?.methods ?? []) {
+                relatedNodeIds.add(`method:${method.filePath}:${cls.name}.${method.name}`);
               }
             }
           }
         } else {
           // ファイルパスが指定されていない場合、名前で検索
-          for (const analysisClass of analysisResult.classes) {
-            if (analysisClass.name === cls.name) {
-              const classNodeId = `class:${analysisClass.filePath}:${analysisClass.name}`;
-              relatedNodeIds.add(classNodeId);
-              relatedNodeIds.add(`file:${analysisClass.filePath}`);
-              // クラス内のメソッドも追加
-              for (const method of analysisClass.methods) {
-                relatedNodeIds.add(`method:${method.filePath}:${cls.name}.${method.name}`);
-              }
+          for (const classNodeId of this.graph.findNodeIdsByName(cls.name, NodeType.Class)) {
+            const analysisClass = this.classInfos.get(classNodeId)!;
+            relatedNodeIds.add(classNodeId);
+            // クラス内のメソッドも追加
+            for (const method of analysisClass.methods) {
+              relatedNodeIds.add(`method:${method.filePath}:${cls.name}.${method.name}`);
             }
           }
         }
       }
     }
 
-    // 6. 幅優先探索で関連ノードを収集（既存のロジックを使用）
+    // 6. 関連ノードからエッジを辿って周辺のノードを収集
     if (relatedNodeIds.size > 0) {
-      const nodesToProcess = new Set<string>(relatedNodeIds);
-      const processedNodes = new Set<string>();
-
-      while (nodesToProcess.size > 0) {
-        const currentNodeId = Array.from(nodesToProcess)[0];
-        nodesToProcess.delete(currentNodeId);
-
-        if (processedNodes.has(currentNodeId)) {
-          continue;
-        }
-
-        processedNodes.add(currentNodeId);
-        relatedNodeIds.add(currentNodeId);
-
-        // このノードから出るエッジを探す
-        for (const edge of graphData.edges) {
-          if (edge.source === currentNodeId) {
-            if (!processedNodes.has(edge.target)) {
-              nodesToProcess.add(edge.target);
-              relatedNodeIds.add(edge.target);
-
-              // ターゲットノードのファイルも追加
-              const targetNode = graphData.nodes.find((n) => n.id === edge.target);
-              if (targetNode) {
-                const targetFileNodeId = `file:${targetNode.filePath}`;
-                if (!processedNodes.has(targetFileNodeId)) {
-                  nodesToProcess.add(targetFileNodeId);
-                }
-              }
-            }
-          }
-
-          // このノードへのエッジを探す
-          if (edge.target === currentNodeId) {
-            if (!processedNodes.has(edge.source)) {
-              nodesToProcess.add(edge.source);
-              relatedNodeIds.add(edge.source);
-
-              // ソースノードのファイルも追加
-              const sourceNode = graphData.nodes.find((n) => n.id === edge.source);
-              if (sourceNode) {
-                const sourceFileNodeId = `file:${sourceNode.filePath}`;
-                if (!processedNodes.has(sourceFileNodeId)) {
-                  nodesToProcess.add(sourceFileNodeId);
-                }
-              }
-            }
-          }
-        }
-
-        // 親ノードも追加
-        const currentNode = graphData.nodes.find((n) => n.id === currentNodeId);
-        if (currentNode && currentNode.parentId && !processedNodes.has(currentNode.parentId)) {
-          nodesToProcess.add(currentNode.parentId);
-        }
-      }
-
-      // ファイルノードに関連するすべての子ノードも追加
-      for (const nodeId of Array.from(relatedNodeIds)) {
-        const node = graphData.nodes.find((n) => n.id === nodeId);
-        if (node && node.type === NodeType.File) {
-          for (const childNode of graphData.nodes) {
-            if (childNode.filePath === node.filePath && childNode.id !== nodeId) {
-              relatedNodeIds.add(childNode.id);
-            }
-          }
-        }
+      const { inboundDepth, outboundDepth, edgeTypes } = traversal;
+      // 深さもエッジの種類も指定されていない場合のみ、従来どおり接続しているノードをすべて収集する
+      if (inboundDepth === undefined && outboundDepth === undefined && !edgeTypes) {
+        this.collectConnectedNodes(relatedNodeIds);
+      } else {
+        console.log(
+          `[LLM-CodeMap] Traversing ${inboundDepth ?? 'unlimited'} inbound / ${outboundDepth ?? 'unlimited'} outbound levels`
+        );
+        this.collectNodesWithinDepth(relatedNodeIds, inboundDepth, outboundDepth, edgeTypes);
       }
     }
 
@@ -378,301 +876,1095 @@ export class DependencyExtractor {
     });
     console.log(`[LLM-CodeMap] Edge type distribution in filtered graph:`, edgeTypeStats);
 
-    return {
-      nodes: filteredNodes,
-      edges: filteredEdges,
+    return {
+      nodes: filteredNodes,
+      edges: filteredEdges,
+    };
+  }
+
+  /**
+   * 関連ノードと接続しているノードを、深さの制限なしにすべて収集（向きを区別せず、親子関係も辿る）
+   */
+  private collectConnectedNodes(relatedNodeIds: Set<string>): void {
+    const queue = Array.from(relatedNodeIds);
+    const queued = new Set(queue);
+    const enqueue = (nodeId: string) => {
+      if (!queued.has(nodeId)) {
+        queued.add(nodeId);
+        queue.push(nodeId);
+      }
+    };
+
+    for (let head = 0; head < queue.length; head++) {
+      const currentNodeId = queue[head];
+      relatedNodeIds.add(currentNodeId);
+
+      // このノードから出るエッジ・このノードへのエッジの先のノードと、そのファイルを追加
+      const neighborIds = [
+        ...this.graph
+          .getOutgoingEdges(currentNodeId)
+          .filter((edge) => this.isFollowedEdge(edge, true))
+          .map((edge) => edge.target),
+        ...this.graph
+          .getIncomingEdges(currentNodeId)
+          .filter((edge) => this.isFollowedEdge(edge, true))
+          .map((edge) => edge.source),
+      ];
+      for (const neighborId of neighborIds) {
+        enqueue(neighborId);
+        const neighborNode = this.graph.getNode(neighborId);
+        if (neighborNode) {
+          enqueue(`file:${neighborNode.filePath}`);
+        }
+      }
+
+      // 親ノードも追加
+      const currentNode = this.graph.getNode(currentNodeId);
+      if (currentNode?.parentId) {
+        enqueue(currentNode.parentId);
+      }
+    }
+
+    // ファイルノードに関連するすべての子ノードも追加
+    for (const nodeId of Array.from(relatedNodeIds)) {
+      const node = this.graph.getNode(nodeId);
+      if (node && node.type === NodeType.File) {
+        this.graph.getNodeIdsInFile(node.filePath).forEach((id) => relatedNodeIds.add(id));
+      }
+    }
+  }
+
+  /**
+   * 関連ノードから、依存している向き（outbound）と依存されている向き（inbound）にそれぞれ指定の深さまで辿る
+   * 親子関係（contains）は深さに数えない。ファイルはその中のシンボルも起点にし、辿り着いたノードは親とともに追加する
+   * @param inboundDepth 依存されている向きに辿る深さ（undefinedは無制限）
+   * @param outboundDepth 依存している向きに辿る深さ（undefinedは無制限）
+   * @param edgeTypes 辿るエッジの種類（undefinedはすべて）
+   */
+  private collectNodesWithinDepth(
+    relatedNodeIds: Set<string>,
+    inboundDepth?: number,
+    outboundDepth?: number,
+    edgeTypes?: EdgeType[]
+  ): void {
+    const startNodeIds = new Set(relatedNodeIds);
+    for (const nodeId of relatedNodeIds) {
+      const node = this.graph.getNode(nodeId);
+      if (node?.type === NodeType.File) {
+        this.graph.getNodeIdsInFile(node.filePath).forEach((id) => startNodeIds.add(id));
+      }
+    }
+
+    const reachedNodeIds = new Set(startNodeIds);
+    for (const outbound of [true, false]) {
+      const maxDepth = outbound ? outboundDepth : inboundDepth;
+      const visited = new Set(startNodeIds);
+      let frontier = Array.from(startNodeIds);
+      for (
+        let level = 0;
+        frontier.length > 0 && (maxDepth === undefined || level < maxDepth);
+        level++
+      ) {
+        const next: string[] = [];
+        for (const nodeId of frontier) {
+          const edges = outbound
+            ? this.graph.getOutgoingEdges(nodeId)
+            : this.graph.getIncomingEdges(nodeId);
+          for (const edge of edges) {
+            const neighborId = outbound ? edge.target : edge.source;
+            if (this.isFollowedEdge(edge, false, edgeTypes) && !visited.has(neighborId)) {
+              visited.add(neighborId);
+              reachedNodeIds.add(neighborId);
+              next.push(neighborId);
+            }
+          }
+        }
+        frontier = next;
+      }
+    }
+
+    // 辿り着いたノードの親（メソッドのクラス、シンボルのファイル、ファイルのフォルダなど）を追加
+    for (const nodeId of reachedNodeIds) {
+      relatedNodeIds.add(nodeId);
+      let parentId = this.graph.getNode(nodeId)?.parentId;
+      while (parentId && !relatedNodeIds.has(parentId)) {
+        relatedNodeIds.add(parentId);
+        parentId = this.graph.getNode(parentId)?.parentId;
+      }
+    }
+  }
+
+  /**
+   * 関連ノードの収集で辿るエッジか（エッジの種類が指定されている場合は、その種類のみ辿る）
+   * @param followContains 親子関係（contains）のエッジも辿るか
+   */
+  private isFollowedEdge(
+    edge: GraphEdge,
+    followContains: boolean,
+    edgeTypes?: EdgeType[]
+  ): boolean {
+    if (edge.type === EdgeType.Reference && edge.label === 'contains') {
+      return followContains;
+    }
+    return !edgeTypes || edgeTypes.includes(edge.type);
+  }
+
+  /**
+   * ターゲットファイルのパスを検索
+   */
+  private findTargetFilePath(targetFile: string, files: { path: string }[]): string | undefined {
+    // 絶対パスの場合
+    if (path.isAbsolute(targetFile)) {
+      return files.find((f) => f.path === targetFile)?.path;
+    }
+
+    // ファイル名のみの場合
+    const fileName = path.basename(targetFile);
+    const matchingFiles = files.filter(
+      (f) => path.basename(f.path) === fileName || f.path.endsWith(targetFile)
+    );
+
+    if (matchingFiles.length === 1) {
+      return matchingFiles[0].path;
+    }
+
+    // 複数マッチする場合は、最も短いパスを返す（通常はルートに近い）
+    if (matchingFiles.length > 1) {
+      matchingFiles.sort((a, b) => a.path.length - b.path.length);
+      return matchingFiles[0].path;
+    }
+
+    // 相対パスの場合
+    for (const file of files) {
+      if (file.path.endsWith(targetFile) || file.path.includes(targetFile)) {
+        return file.path;
+      }
+    }
+
+    return undefined;
+  }
+
+  /**
+   * ファイルノードを作成
+   */
+  private createFileNode(
+    filePath: string,
+    project?: string,
+    workspacePackage?: string,
+    workspaceFolder?: string
+  ): void {
+    const nodeId = `file:${filePath}`;
+    const fileName = path.basename(filePath);
+
+    if (!this.graph.hasNode(nodeId)) {
+      const packageNodeId = workspacePackage ? `package:${workspacePackage}` : undefined;
+      const folderNodeId = workspaceFolder ? `folder:${workspaceFolder}` : undefined;
+      const node: GraphNode = {
+        id: nodeId,
+        label: fileName,
+        type: NodeType.File,
+        filePath,
+        parentId: [packageNodeId, folderNodeId].find((id) => id && this.graph.hasNode(id)),
+        metadata: {
+          fullPath: filePath,
+          project,
+          workspacePackage,
+          workspaceFolder,
+        },
+      };
+      // パッケージ・フォルダのファイル数を数える（フォルダ内のパッケージの分も含める）
+      for (
+        let parent = node.parentId ? this.graph.getNode(node.parentId) : undefined;
+        parent;
+        parent = parent.parentId ? this.graph.getNode(parent.parentId) : undefined
+      ) {
+        parent.metadata!.fileCount++;
+      }
+      this.graph.setNode(node);
+    }
+  }
+
+  /**
+   * モノレポのワークスペースパッケージのノードを作成
+   */
+  private createWorkspacePackageNode(workspacePackage: WorkspacePackageInfo): void {
+    const nodeId = `package:${workspacePackage.name}`;
+    const folderNodeId = `folder:${workspacePackage.workspaceFolder}`;
+    this.graph.setNode({
+      id: nodeId,
+      label: workspacePackage.name,
+      type: NodeType.Package,
+      filePath: workspacePackage.packageJsonPath,
+      parentId: this.graph.hasNode(folderNodeId) ? folderNodeId : undefined,
+      metadata: {
+        packageName: workspacePackage.name,
+        version: workspacePackage.version,
+        directory: workspacePackage.directory,
+        workspace: true,
+        workspaceFolder: workspacePackage.workspaceFolder,
+        fileCount: 0,
+      },
+    });
+  }
+
+  /**
+   * マルチルートワークスペースのフォルダのノードを作成
+   */
+  private createWorkspaceFolderNode(workspaceFolder: WorkspaceFolderInfo): void {
+    const nodeId = `folder:${workspaceFolder.path}`;
+    this.graph.setNode({
+      id: nodeId,
+      label: workspaceFolder.name,
+      type: NodeType.Folder,
+      filePath: workspaceFolder.path,
+      metadata: {
+        directory: workspaceFolder.path,
+        workspaceFolder: workspaceFolder.path,
+        fileCount: 0,
+      },
+    });
+  }
+
+  /**
+   * ワークスペースパッケージ間の依存関係のエッジを作成
+   * package.jsonでの宣言と実際のインポートの両方から作成し、片方しかないものも区別できるようにする
+   */
+  private createWorkspaceDependencyEdges(analysisResult: AnalysisResult): void {
+    const packages = analysisResult.workspacePackages;
+    const packageNames = new Set(packages.map((p) => p.name));
+    const getEdge = (sourceName: string, targetName: string): GraphEdge => {
+      const edgeId = `import:package:${sourceName}:package:${targetName}`;
+      let edge = this.graph.getEdge(edgeId);
+      if (!edge) {
+        edge = {
+          id: edgeId,
+          source: `package:${sourceName}`,
+          target: `package:${targetName}`,
+          type: EdgeType.Import,
+          metadata: { declared: false, version: undefined, importCount: 0 },
+        };
+        this.graph.setEdge(edge);
+      }
+      return edge;
+    };
+
+    // package.jsonで宣言された依存関係
+    for (const workspacePackage of packages) {
+      for (const [dependency, version] of Object.entries(workspacePackage.dependencies)) {
+        if (packageNames.has(dependency) && dependency !== workspacePackage.name) {
+          const edge = getEdge(workspacePackage.name, dependency);
+          edge.metadata!.declared = true;
+          edge.metadata!.version = version;
+        }
+      }
+    }
+
+    // 実際のインポート
+    const sortedPackages = [...packages].sort((a, b) => b.directory.length - a.directory.length);
+    const findPackageName = (filePath: string) =>
+      sortedPackages.find((p) => {
+        const relative = path.relative(p.directory, filePath);
+        return !relative.startsWith('..') && !path.isAbsolute(relative);
+      })?.name;
+    for (const importInfo of analysisResult.imports) {
+      if (!importInfo.resolvedPath) {
+        continue;
+      }
+      const sourceName = findPackageName(importInfo.filePath);
+      const targetName = findPackageName(importInfo.resolvedPath);
+      if (sourceName && targetName && sourceName !== targetName) {
+        getEdge(sourceName, targetName).metadata!.importCount++;
+      }
+    }
+
+    // 宣言だけで使われていない依存関係、宣言されていないインポートをラベルで示す
+    for (const edge of this.graph.getEdges()) {
+      if (edge.type !== EdgeType.Import || !edge.id.startsWith('import:package:')) {
+        continue;
+      }
+      const { declared, version, importCount } = edge.metadata!;
+      edge.label = !declared ? 'undeclared' : importCount === 0 ? `${version} (unused)` : version;
+    }
+  }
+
+  /**
+   * 外部パッケージ・組み込みモジュールのノードを作成（パッケージ名ごとに1つ）
+   */
+  private createPackageNode(externalPackage: ExternalPackageInfo): string {
+    const nodeId = `package:${externalPackage.name}`;
+    if (!this.graph.hasNode(nodeId)) {
+      this.graph.setNode({
+        id: nodeId,
+        label: externalPackage.version
+          ? `${externalPackage.name}@${externalPackage.version}`
+          : externalPackage.name,
+        type: NodeType.Package,
+        filePath: externalPackage.packageJsonPath || '',
+        metadata: {
+          packageName: externalPackage.name,
+          version: externalPackage.version,
+          installedVersion: externalPackage.installedVersion,
+          dependencyType: externalPackage.dependencyType,
+          isBuiltin: externalPackage.isBuiltin,
+          isExternal: true,
+        },
+      });
+    }
+    return nodeId;
+  }
+
+  /**
+   * 関数ノードを作成
+   */
+  private createFunctionNode(func: FunctionInfo): void {
+    const nodeId = `function:${func.filePath}:${func.name}`;
+    const fileNodeId = `file:${func.filePath}`;
+
+    if (!this.graph.hasNode(nodeId)) {
+      const node: GraphNode = {
+        id: nodeId,
+        label: func.name,
+        type: NodeType.Function,
+        filePath: func.filePath,
+        line: func.line,
+        column: func.column,
+        parentId: fileNodeId,
+        metadata: {
+          isExported: func.isExported,
+          isAsync: func.isAsync,
+          parameters: func.parameters,
+          returnType: func.returnType,
+        },
+      };
+      this.graph.setNode(node);
+    }
+  }
+
+  /**
+   * クラスノードを作成
+   */
+  private createClassNode(cls: ClassInfo): void {
+    const nodeId = `class:${cls.filePath}:${cls.name}`;
+    const fileNodeId = `file:${cls.filePath}`;
+    this.classInfos.set(nodeId, cls);
+
+    if (!this.graph.hasNode(nodeId)) {
+      const node: GraphNode = {
+        id: nodeId,
+        label: cls.name,
+        type: NodeType.Class,
+        filePath: cls.filePath,
+        line: cls.line,
+        column: cls.column,
+        parentId: fileNodeId,
+        metadata: {
+          isExported: cls.isExported,
+          extends: cls.extends,
+          implements: cls.implements,
+        },
+      };
+      this.graph.setNode(node);
+    }
+  }
+
+  /**
+   * メソッドノードを作成
+   */
+  private createMethodNode(method: any, cls: ClassInfo): void {
+    const nodeId = `method:${method.filePath}:${cls.name}.${method.name}`;
+    const classNodeId = `class:${method.filePath}:${cls.name}`;
+
+    if (!this.graph.hasNode(nodeId)) {
+      const node: GraphNode = {
+        id: nodeId,
+        label: `${cls.name}.${method.name}`,
+        type: NodeType.Method,
+        filePath: method.filePath,
+        line: method.line,
+        column: method.column,
+        parentId: classNodeId,
+        metadata: {
+          isPublic: method.isPublic,
+          isStatic: method.isStatic,
+          isAsync: method.isAsync,
+          parameters: method.parameters,
+          returnType: method.returnType,
+        },
+      };
+      this.graph.setNode(node);
+    }
+  }
+
+  /**
+   * インターフェースノードを作成
+   */
+  private createInterfaceNode(iface: InterfaceInfo): void {
+    this.addSymbolNode(`interface:${iface.filePath}:${iface.name}`, {
+      label: iface.name,
+      type: NodeType.Interface,
+      filePath: iface.filePath,
+      line: iface.line,
+      column: iface.column,
+      metadata: {
+        isExported: iface.isExported,
+        extends: iface.extends,
+        members: iface.members.map((m) => ({
+          name: m.name,
+          kind: m.kind,
+          type: m.type,
+          isOptional: m.isOptional,
+        })),
+      },
+    });
+  }
+
+  /**
+   * 型エイリアスノードを作成
+   */
+  private createTypeAliasNode(typeAlias: TypeAliasInfo): void {
+    this.addSymbolNode(`type:${typeAlias.filePath}:${typeAlias.name}`, {
+      label: typeAlias.name,
+      type: NodeType.Type,
+      filePath: typeAlias.filePath,
+      line: typeAlias.line,
+      column: typeAlias.column,
+      metadata: {
+        kind: 'typeAlias',
+        isExported: typeAlias.isExported,
+        type: typeAlias.type,
+        typeParameters: typeAlias.typeParameters,
+      },
+    });
+  }
+
+  /**
+   * 列挙型ノードを作成（型ノードとして扱う）
+   */
+  private createEnumNode(enumInfo: EnumInfo): void {
+    this.addSymbolNode(`type:${enumInfo.filePath}:${enumInfo.name}`, {
+      label: enumInfo.name,
+      type: NodeType.Type,
+      filePath: enumInfo.filePath,
+      line: enumInfo.line,
+      column: enumInfo.column,
+      metadata: {
+        kind: 'enum',
+        isExported: enumInfo.isExported,
+        isConst: enumInfo.isConst,
+        members: enumInfo.members,
+      },
+    });
+  }
+
+  /**
+   * 変数ノードを作成
+   */
+  private createVariableNode(variable: VariableInfo): void {
+    this.addSymbolNode(`variable:${variable.filePath}:${variable.name}`, {
+      label: variable.name,
+      type: NodeType.Variable,
+      filePath: variable.filePath,
+      line: variable.line,
+      column: variable.column,
+      metadata: {
+        isExported: variable.isExported,
+        kind: variable.kind,
+        type: variable.type,
+      },
+    });
+  }
+
+  /**
+   * ファイル直下のシンボルノードを登録
+   */
+  private addSymbolNode(nodeId: string, node: Omit<GraphNode, 'id' | 'parentId'>): void {
+    if (this.graph.hasNode(nodeId)) {
+      return;
+    }
+
+    this.graph.setNode({ id: nodeId, parentId: `file:${node.filePath}`, ...node });
+  }
+
+  /**
+   * インポート関係のエッジを作成
+   * モジュール解決済みのファイルと、TypeCheckerで辿った宣言元シンボルへのエッジを張る
+   */
+  private createImportEdges(importInfo: ImportInfo): void {
+    const sourceFileNodeId = `file:${importInfo.filePath}`;
+    if (!this.graph.hasNode(sourceFileNodeId)) {
+      return;
+    }
+
+    if (!importInfo.resolvedPath) {
+      if (importInfo.externalPackage) {
+        const packageNodeId = this.createPackageNode(importInfo.externalPackage);
+        this.addImportEdge(sourceFileNodeId, packageNodeId, importInfo.imports, importInfo);
+        return;
+      }
+      console.warn(
+        `[LLM-CodeMap] Could not resolve import '${importInfo.from}' in ${importInfo.filePath}`
+      );
+      return;
+    }
+
+    // バレルを透過する場合は、インポートした名前ごとに宣言元のファイルへエッジを張る
+    const namesByTargetPath = new Map<string, string[]>();
+    if (this.options.seeThroughBarrels && importInfo.bindings.length > 0) {
+      for (const binding of importInfo.bindings) {
+        const targetPath =
+          binding.declarationFilePath && this.graph.hasNode(`file:${binding.declarationFilePath}`)
+            ? binding.declarationFilePath
+            : importInfo.resolvedPath;
+        namesByTargetPath.set(targetPath, [
+          ...(namesByTargetPath.get(targetPath) || []),
+          binding.name,
+        ]);
+      }
+    } else {
+      namesByTargetPath.set(importInfo.resolvedPath, importInfo.imports);
+    }
+
+    for (const [targetPath, names] of namesByTargetPath) {
+      // インポート先が解析対象外のファイル（.d.ts、.jsonなど）の場合はファイルノードを作成
+      if (!this.graph.hasNode(`file:${targetPath}`)) {
+        this.createFileNode(targetPath);
+      }
+      // バレルを飛ばした場合は経由したファイルを記録
+      const via = targetPath !== importInfo.resolvedPath ? importInfo.resolvedPath : undefined;
+      this.addImportEdge(sourceFileNodeId, `file:${targetPath}`, names, importInfo, via);
+    }
+
+    // インポートされた要素（関数、クラスなど）の宣言へのエッジも作成
+    for (const binding of importInfo.bindings) {
+      if (!binding.declarationFilePath || !binding.declarationName) {
+        continue;
+      }
+
+      const targetNodeId = this.findDeclarationNodeId(
+        binding.declarationFilePath,
+        binding.declarationName
+      );
+      if (!targetNodeId) {
+        continue;
+      }
+
+      const edgeId = `import:${sourceFileNodeId}:${targetNodeId}`;
+      if (!this.graph.hasEdge(edgeId)) {
+        this.graph.setEdge({
+          id: edgeId,
+          source: sourceFileNodeId,
+          target: targetNodeId,
+          type: EdgeType.Import,
+          label: binding.name,
+          metadata: {
+            specifier: importInfo.from,
+            kind: importInfo.kind,
+            importedName: binding.importedName,
+            isDefault: binding.importedName === 'default',
+            isNamespace: false,
+          },
+        });
+      }
+    }
+  }
+
+  /**
+   * ファイルからファイル・パッケージへのインポートエッジを追加（同じ対象への複数のimport文はまとめる）
+   */
+  private addImportEdge(
+    sourceFileNodeId: string,
+    targetNodeId: string,
+    names: string[],
+    importInfo: ImportInfo,
+    via?: string
+  ): void {
+    // 種類の異なるインポート（動的インポートなど）は別のエッジにする
+    const fileEdgeId =
+      importInfo.kind === 'static'
+        ? `import:${sourceFileNodeId}:${targetNodeId}`
+        : `import:${sourceFileNodeId}:${targetNodeId}:${importInfo.kind}`;
+    const existingFileEdge = this.graph.getEdge(fileEdgeId);
+    if (existingFileEdge) {
+      const merged = new Set([...(existingFileEdge.metadata?.imports || []), ...names]);
+      existingFileEdge.metadata = { ...existingFileEdge.metadata, imports: Array.from(merged) };
+      existingFileEdge.label = Array.from(merged).join(', ') || existingFileEdge.label;
+      return;
+    }
+
+    this.graph.setEdge({
+      id: fileEdgeId,
+      source: sourceFileNodeId,
+      target: targetNodeId,
+      type: EdgeType.Import,
+      label: names.join(', ') || importInfo.from,
+      metadata: {
+        specifier: importInfo.from,
+        kind: importInfo.kind,
+        imports: names,
+        isDefault: importInfo.isDefault,
+        isNamespace: importInfo.isNamespace,
+        via,
+        crossFolder: this.isCrossFolderEdge(sourceFileNodeId, targetNodeId),
+      },
+    });
+  }
+
+  /**
+   * 異なるワークスペースフォルダのノード間のエッジかチェック
+   */
+  private isCrossFolderEdge(sourceNodeId: string, targetNodeId: string): boolean {
+    const sourceFolder = this.graph.getNode(sourceNodeId)?.metadata?.workspaceFolder;
+    const targetFolder = this.graph.getNode(targetNodeId)?.metadata?.workspaceFolder;
+    return !!sourceFolder && !!targetFolder && sourceFolder !== targetFolder;
+  }
+
+  /**
+   * 再エクスポート（export ... from）のエッジをバレルから実装元のモジュールへ作成
+   */
+  private createReExportEdges(exportInfo: ExportInfo): void {
+    const barrelNodeId = `file:${exportInfo.filePath}`;
+    if (!exportInfo.resolvedPath || !this.graph.hasNode(barrelNodeId)) {
+      return;
+    }
+
+    const originNodeId = `file:${exportInfo.resolvedPath}`;
+    if (!this.graph.hasNode(originNodeId)) {
+      this.createFileNode(exportInfo.resolvedPath);
+    }
+
+    const edgeId = `export:${barrelNodeId}:${originNodeId}`;
+    let edge = this.graph.getEdge(edgeId);
+    if (!edge) {
+      edge = {
+        id: edgeId,
+        source: barrelNodeId,
+        target: originNodeId,
+        type: EdgeType.Export,
+        label: '',
+        metadata: { specifier: exportInfo.from, exports: [], isAll: false },
+      };
+      this.graph.setEdge(edge);
+    }
+
+    if (exportInfo.type === 'all') {
+      edge.metadata!.isAll = true;
+    } else if (exportInfo.type === 'namespace') {
+      edge.metadata!.exports.push(`* as ${exportInfo.name}`);
+    } else {
+      edge.metadata!.exports.push(
+        exportInfo.propertyName && exportInfo.propertyName !== exportInfo.name
+          ? `${exportInfo.propertyName} as ${exportInfo.name}`
+          : exportInfo.name
+      );
+    }
+    edge.label = [...(edge.metadata!.isAll ? ['*'] : []), ...edge.metadata!.exports].join(', ');
+  }
+
+  /**
+   * ファイルごとにインポートされた名前を記録（型参照の解決に使用）
+   */
+  private registerImportBindings(importInfo: ImportInfo): void {
+    if (!this.importBindings.has(importInfo.filePath)) {
+      this.importBindings.set(importInfo.filePath, new Map());
+    }
+    const bindings = this.importBindings.get(importInfo.filePath)!;
+    for (const binding of importInfo.bindings) {
+      bindings.set(binding.name, binding);
+    }
+  }
+
+  /**
+   * ファイル内で参照されている型名を対応するノードに解決
+   * 同じファイルの宣言、インポートの宣言元、ワークスペース全体の名前検索の順に探す
+   * インポートした名前（React.Componentなどの名前空間も含む）は、宣言元がグラフにない場合（ライブラリなど）も
+   * 名前検索はしない（同名のワークスペース内の宣言に誤って結び付けないため。名前検索はグローバルな宣言のみ）
+   */
+  private resolveTypeReference(
+    name: string,
+    filePath: string,
+    types: NodeType[]
+  ): string | undefined {
+    const prefixes = types.map((type) => String(type));
+
+    for (const prefix of prefixes) {
+      const nodeId = `${prefix}:${filePath}:${name}`;
+      if (this.graph.hasNode(nodeId)) {
+        return nodeId;
+      }
+    }
+
+    const bindings = this.importBindings.get(filePath);
+    const binding = bindings?.get(name);
+    if (binding?.declarationFilePath && binding.declarationName) {
+      for (const prefix of prefixes) {
+        const nodeId = `${prefix}:${binding.declarationFilePath}:${binding.declarationName}`;
+        if (this.graph.hasNode(nodeId)) {
+          return nodeId;
+        }
+      }
+    }
+    if (binding || bindings?.has(name.split('.')[0])) {
+      return undefined;
+    }
+
+    for (const type of types) {
+      const nodeId = this.findNodeByName(name, type);
+      if (nodeId) {
+        return nodeId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 宣言元のファイルと名前から対応するノードIDを取得
+   */
+  private findDeclarationNodeId(filePath: string, name: string): string | undefined {
+    for (const prefix of ['function', 'class', 'interface', 'type', 'variable']) {
+      const nodeId = `${prefix}:${filePath}:${name}`;
+      if (this.graph.hasNode(nodeId)) {
+        return nodeId;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * 関数呼び出し関係のエッジを抽出
+   * 呼び出し先はTypeCheckerでシンボルを解決し、インポートのエイリアスを辿って宣言元の関数・メソッドに結ぶ
+   */
+  private extractCallEdges(sourceFile: ts.SourceFile, filePath: string, program: ts.Program): void {
+    const checker = program.getTypeChecker();
+
+    const visit = (node: ts.Node) => {
+      // 関数呼び出しを検出
+      if (ts.isCallExpression(node)) {
+        let calleeNodeIds = this.resolveCalleeNodeIds(node.expression, checker);
+        if (calleeNodeIds.length === 0) {
+          const fallbackNodeId =
+            this.resolveThisMethodCall(node.expression, filePath) ||
+            this.resolveImportedFunctionCall(node.expression, filePath) ||
+            this.findLocalFunctionByName(node.expression, filePath, checker);
+          calleeNodeIds = fallbackNodeId ? [fallbackNodeId] : [];
+        }
+
+        if (calleeNodeIds.length > 0) {
+          // 呼び出し元の関数・メソッド（トップレベルの場合はファイル）
+          const callerNodeId = this.findCallerNode(node, filePath);
+          const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+          for (const calleeNodeId of calleeNodeIds) {
+            this.addCallEdge(callerNodeId, calleeNodeId, position.line + 1, position.character + 1);
+          }
+        }
+      }
+
+      // new X() によるインスタンス生成を検出
+      if (ts.isNewExpression(node)) {
+        const classNodeId = this.resolveInstantiatedClassNodeId(node, filePath, checker);
+        if (classNodeId) {
+          const callerNodeId = this.findCallerNode(node, filePath);
+          const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+          this.addCallEdge(
+            callerNodeId,
+            classNodeId,
+            position.line + 1,
+            position.character + 1,
+            EdgeType.Instantiates
+          );
+        }
+      }
+
+      ts.forEachChild(node, visit);
     };
+
+    visit(sourceFile);
   }
 
   /**
-   * ターゲットファイルのパスを検索
+   * 呼び出し式の対象をTypeCheckerで解決し、宣言元の関数・メソッドノードのIDを取得
+   * インターフェース型のレシーバーの場合は、そのインターフェースを実装するクラスのメソッドを返す
    */
-  private findTargetFilePath(targetFile: string, files: { path: string }[]): string | undefined {
-    // 絶対パスの場合
-    if (path.isAbsolute(targetFile)) {
-      return files.find((f) => f.path === targetFile)?.path;
+  private resolveCalleeNodeIds(expression: ts.Expression, checker: ts.TypeChecker): string[] {
+    const target = ts.isPropertyAccessExpression(expression)
+      ? expression.name
+      : ts.isIdentifier(expression)
+        ? expression
+        : undefined;
+    if (!target) {
+      return [];
     }
 
-    // ファイル名のみの場合
-    const fileName = path.basename(targetFile);
-    const matchingFiles = files.filter(
-      (f) => path.basename(f.path) === fileName || f.path.endsWith(targetFile)
-    );
-
-    if (matchingFiles.length === 1) {
-      return matchingFiles[0].path;
+    let symbol = checker.getSymbolAtLocation(target);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
     }
 
-    // 複数マッチする場合は、最も短いパスを返す（通常はルートに近い）
-    if (matchingFiles.length > 1) {
-      matchingFiles.sort((a, b) => a.path.length - b.path.length);
-      return matchingFiles[0].path;
+    const declaration = symbol?.valueDeclaration || symbol?.declarations?.[0];
+    if (!declaration) {
+      return [];
     }
 
-    // 相対パスの場合
-    for (const file of files) {
-      if (file.path.endsWith(targetFile) || file.path.includes(targetFile)) {
-        return file.path;
-      }
+    const declarationFilePath = path.normalize(declaration.getSourceFile().fileName);
+    if (
+      ts.isMethodSignature(declaration) &&
+      ts.isIdentifier(declaration.name) &&
+      ts.isInterfaceDeclaration(declaration.parent)
+    ) {
+      const interfaceNodeId = `interface:${declarationFilePath}:${declaration.parent.name.text}`;
+      return this.findImplementingMethodNodeIds(interfaceNodeId, declaration.name.text);
     }
 
-    return undefined;
+    const nodeId = this.getDeclarationNodeId(declaration, declarationFilePath);
+    const node = nodeId ? this.graph.getNode(nodeId) : undefined;
+    return node && (node.type === NodeType.Function || node.type === NodeType.Method)
+      ? [nodeId!]
+      : [];
   }
 
   /**
-   * ファイルノードを作成
+   * new式で生成されるクラスのノードIDを取得（解決できない場合は名前で探す）
    */
-  private createFileNode(filePath: string): void {
-    const nodeId = `file:${filePath}`;
-    const fileName = path.basename(filePath);
+  private resolveInstantiatedClassNodeId(
+    expression: ts.NewExpression,
+    filePath: string,
+    checker: ts.TypeChecker
+  ): string | undefined {
+    const target = ts.isPropertyAccessExpression(expression.expression)
+      ? expression.expression.name
+      : ts.isIdentifier(expression.expression)
+        ? expression.expression
+        : undefined;
+    if (!target) {
+      return undefined;
+    }
 
-    if (!this.nodeMap.has(nodeId)) {
-      const node: GraphNode = {
-        id: nodeId,
-        label: fileName,
-        type: NodeType.File,
-        filePath,
-        metadata: {
-          fullPath: filePath,
-        },
-      };
-      this.nodeMap.set(nodeId, node);
+    let symbol = checker.getSymbolAtLocation(target);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
 
-      // ファイルとノードのマッピングを更新
-      if (!this.fileToNodes.has(filePath)) {
-        this.fileToNodes.set(filePath, []);
-      }
-      this.fileToNodes.get(filePath)!.push(nodeId);
+    const declaration = symbol?.valueDeclaration || symbol?.declarations?.[0];
+    const classDeclaration =
+      declaration && ts.isVariableDeclaration(declaration)
+        ? declaration.initializer // const Foo = class {}
+        : declaration;
+    if (classDeclaration && ts.isClassLike(classDeclaration)) {
+      const nodeId = this.getDeclarationNodeId(
+        classDeclaration,
+        path.normalize(classDeclaration.getSourceFile().fileName)
+      );
+      return nodeId && this.graph.hasNode(nodeId) ? nodeId : undefined;
     }
+
+    return symbol ? undefined : this.resolveTypeReference(target.text, filePath, [NodeType.Class]);
   }
 
   /**
-   * 関数ノードを作成
+   * TypeCheckerで解決できなかった this.method() を、自クラスと継承元（ClassInfo.extends）から探す
    */
-  private createFunctionNode(func: FunctionInfo): void {
-    const nodeId = `function:${func.filePath}:${func.name}`;
-    const fileNodeId = `file:${func.filePath}`;
-
-    if (!this.nodeMap.has(nodeId)) {
-      const node: GraphNode = {
-        id: nodeId,
-        label: func.name,
-        type: NodeType.Function,
-        filePath: func.filePath,
-        line: func.line,
-        column: func.column,
-        parentId: fileNodeId,
-        metadata: {
-          isExported: func.isExported,
-          isAsync: func.isAsync,
-          parameters: func.parameters,
-          returnType: func.returnType,
-        },
-      };
-      this.nodeMap.set(nodeId, node);
+  private resolveThisMethodCall(expression: ts.Expression, filePath: string): string | undefined {
+    if (
+      !ts.isPropertyAccessExpression(expression) ||
+      expression.expression.kind !== ts.SyntaxKind.ThisKeyword
+    ) {
+      return undefined;
+    }
 
-      // ファイルとノードのマッピングを更新
-      if (!this.fileToNodes.has(func.filePath)) {
-        this.fileToNodes.set(func.filePath, []);
-      }
-      this.fileToNodes.get(func.filePath)!.push(nodeId);
+    const className = this.getClassName(this.findParentClass(expression));
+    if (!className) {
+      return undefined;
     }
+
+    return this.findMethodInClassHierarchy(`class:${filePath}:${className}`, expression.name.text);
   }
 
   /**
-   * クラスノードを作成
+   * クラスとその継承元を辿ってメソッドノードを探す
    */
-  private createClassNode(cls: ClassInfo): void {
-    const nodeId = `class:${cls.filePath}:${cls.name}`;
-    const fileNodeId = `file:${cls.filePath}`;
+  private findMethodInClassHierarchy(
+    classNodeId: string,
+    methodName: string,
+    visited: Set<string> = new Set()
+  ): string | undefined {
+    const cls = this.classInfos.get(classNodeId);
+    if (!cls || visited.has(classNodeId)) {
+      return undefined;
+    }
+    visited.add(classNodeId);
 
-    if (!this.nodeMap.has(nodeId)) {
-      const node: GraphNode = {
-        id: nodeId,
-        label: cls.name,
-        type: NodeType.Class,
-        filePath: cls.filePath,
-        line: cls.line,
-        column: cls.column,
-        parentId: fileNodeId,
-        metadata: {
-          isExported: cls.isExported,
-          extends: cls.extends,
-          implements: cls.implements,
-        },
-      };
-      this.nodeMap.set(nodeId, node);
+    const methodNodeId = `method:${cls.filePath}:${cls.name}.${methodName}`;
+    if (this.graph.hasNode(methodNodeId)) {
+      return methodNodeId;
+    }
 
-      // ファイルとノードのマッピングを更新
-      if (!this.fileToNodes.has(cls.filePath)) {
-        this.fileToNodes.set(cls.filePath, []);
-      }
-      this.fileToNodes.get(cls.filePath)!.push(nodeId);
+    if (!cls.extends) {
+      return undefined;
     }
+    const baseClassNodeId = this.resolveTypeReference(cls.extends, cls.filePath, [NodeType.Class]);
+    return baseClassNodeId
+      ? this.findMethodInClassHierarchy(baseClassNodeId, methodName, visited)
+      : undefined;
   }
 
   /**
-   * メソッドノードを作成
+   * インターフェースのメソッドを実装しているクラスのメソッドノードを探す
+   * （インターフェースを継承したインターフェースの実装クラスや、実装クラスのサブクラスも含む）
    */
-  private createMethodNode(method: any, cls: ClassInfo): void {
-    const nodeId = `method:${method.filePath}:${cls.name}.${method.name}`;
-    const classNodeId = `class:${method.filePath}:${cls.name}`;
+  private findImplementingMethodNodeIds(interfaceNodeId: string, methodName: string): string[] {
+    let implementers = this.implementersCache.get(interfaceNodeId);
+    if (!implementers) {
+      implementers = [];
+      const visited = new Set<string>([interfaceNodeId]);
+      const queue = [interfaceNodeId];
+      for (let head = 0; head < queue.length; head++) {
+        const incomingEdges = this.graph.getIncomingEdges(queue[head], [
+          EdgeType.Implements,
+          EdgeType.Extends,
+        ]);
+        for (const edge of incomingEdges) {
+          if (visited.has(edge.source)) {
+            continue;
+          }
+          visited.add(edge.source);
+          queue.push(edge.source);
+          if (this.classInfos.has(edge.source)) {
+            implementers.push(edge.source);
+          }
+        }
+      }
+      this.implementersCache.set(interfaceNodeId, implementers);
+    }
 
-    if (!this.nodeMap.has(nodeId)) {
-      const node: GraphNode = {
-        id: nodeId,
-        label: `${cls.name}.${method.name}`,
-        type: NodeType.Method,
-        filePath: method.filePath,
-        line: method.line,
-        column: method.column,
-        parentId: classNodeId,
-        metadata: {
-          isPublic: method.isPublic,
-          isStatic: method.isStatic,
-          isAsync: method.isAsync,
-          parameters: method.parameters,
-          returnType: method.returnType,
-        },
-      };
-      this.nodeMap.set(nodeId, node);
+    const methodNodeIds = new Set<string>();
+    for (const classNodeId of implementers) {
+      const methodNodeId = this.findMethodInClassHierarchy(classNodeId, methodName);
+      if (methodNodeId) {
+        methodNodeIds.add(methodNodeId);
+      }
     }
+    return Array.from(methodNodeIds);
   }
 
   /**
-   * インポート関係のエッジを作成
+   * シンボルが解決できない場合、同じファイル内の同名関数を呼び出し先とする
+   * 関数内のローカル変数に代入した関数は、同じ名前のトップレベルの関数に結び付けない
    */
-  private createImportEdges(importInfo: ImportInfo, analyzer: TypeScriptAnalyzer): void {
-    // インポート元ファイルのノードを取得
-    const sourceFileNodes = this.fileToNodes.get(importInfo.from) || [];
-    if (sourceFileNodes.length === 0) {
-      // インポート元ファイルが見つからない場合、ファイルノードを作成してみる
-      if (!this.nodeMap.has(`file:${importInfo.from}`)) {
-        this.createFileNode(importInfo.from);
-        const newSourceFileNodes = this.fileToNodes.get(importInfo.from) || [];
-        if (newSourceFileNodes.length > 0) {
-          sourceFileNodes.push(...newSourceFileNodes);
-        }
-      }
+  private findLocalFunctionByName(
+    expression: ts.Expression,
+    filePath: string,
+    checker: ts.TypeChecker
+  ): string | undefined {
+    if (!ts.isIdentifier(expression)) {
+      return undefined;
     }
-
-    if (sourceFileNodes.length === 0) {
-      return;
+    const declaration = checker.getSymbolAtLocation(expression)?.valueDeclaration;
+    if (
+      declaration &&
+      ts.isVariableDeclaration(declaration) &&
+      !this.isModuleLevelVariable(declaration)
+    ) {
+      return undefined;
     }
+    const nodeId = `function:${filePath}:${expression.text}`;
+    return this.graph.hasNode(nodeId) ? nodeId : undefined;
+  }
 
-    // 各インポートされた要素に対してエッジを作成
-    for (const importName of importInfo.imports) {
-      // ターゲットファイル内で該当する要素を探す
-      const targetFile = this.findFileByExport(importName, analyzer);
-      if (targetFile) {
-        // ターゲットファイルのノードが存在しない場合は作成
-        if (!this.fileToNodes.has(targetFile)) {
-          this.createFileNode(targetFile);
-        }
-        const targetNodes = this.fileToNodes.get(targetFile) || [];
-
-        // ファイルノード間のエッジを作成（より確実な方法）
-        const sourceFileNodeId = sourceFileNodes[0]; // ファイルノードを使用
-        const targetFileNodeId = `file:${targetFile}`;
-
-        // ファイルノードが存在することを確認
-        if (this.nodeMap.has(sourceFileNodeId) && this.nodeMap.has(targetFileNodeId)) {
-          const edgeId = `import:${sourceFileNodeId}:${targetFileNodeId}`;
-          if (!this.edgeMap.has(edgeId)) {
-            const edge: GraphEdge = {
-              id: edgeId,
-              source: sourceFileNodeId,
-              target: targetFileNodeId,
-              type: EdgeType.Import,
-              label: importName,
-              metadata: {
-                isDefault: importInfo.isDefault,
-                isNamespace: importInfo.isNamespace,
-              },
-            };
-            this.edgeMap.set(edgeId, edge);
-          }
-        }
+  /**
+   * TypeCheckerで解決できなかった呼び出しを、インポートされた名前の宣言元から探す
+   * （require() でインポートしたCommonJSの関数など）
+   * fn() はインポートした関数、ns.fn() はモジュール全体をインポートした名前空間の関数として扱う
+   */
+  private resolveImportedFunctionCall(
+    expression: ts.Expression,
+    filePath: string
+  ): string | undefined {
+    const bindings = this.importBindings.get(filePath);
+    if (!bindings) {
+      return undefined;
+    }
 
-        // 特定の要素（関数、クラスなど）へのエッジも作成
-        for (const sourceNodeId of sourceFileNodes) {
-          for (const targetNodeId of targetNodes) {
-            const targetNode = this.nodeMap.get(targetNodeId);
-            if (targetNode && targetNode.label === importName) {
-              const edgeId = `import:${sourceNodeId}:${targetNodeId}`;
-              if (!this.edgeMap.has(edgeId)) {
-                const edge: GraphEdge = {
-                  id: edgeId,
-                  source: sourceNodeId,
-                  target: targetNodeId,
-                  type: EdgeType.Import,
-                  label: importName,
-                  metadata: {
-                    isDefault: importInfo.isDefault,
-                    isNamespace: importInfo.isNamespace,
-                  },
-                };
-                this.edgeMap.set(edgeId, edge);
-              }
-            }
-          }
-        }
-      } else {
-        // ターゲットファイルが見つからない場合でも、インポート元ファイルのノードは追加
-        // （相対パスの解決に失敗している可能性がある）
-        console.warn(
-          `[LLM-CodeMap] Could not find target file for import: ${importName} from ${importInfo.from}`
-        );
+    let nodeId: string | undefined;
+    if (ts.isIdentifier(expression)) {
+      const binding = bindings.get(expression.text);
+      if (binding?.declarationFilePath && binding.declarationName) {
+        nodeId = `function:${binding.declarationFilePath}:${binding.declarationName}`;
+      }
+    } else if (
+      ts.isPropertyAccessExpression(expression) &&
+      ts.isIdentifier(expression.expression)
+    ) {
+      const binding = bindings.get(expression.expression.text);
+      if (binding?.declarationFilePath && !binding.declarationName) {
+        nodeId = `function:${binding.declarationFilePath}:${expression.name.text}`;
       }
     }
+    return nodeId && this.graph.hasNode(nodeId) ? nodeId : undefined;
   }
 
   /**
-   * 関数呼び出し関係のエッジを抽出
+   * 呼び出し・インスタンス生成のエッジを追加
+   * 同じ呼び出し元・呼び出し先の組は1本にまとめ、呼び出し位置を記録する
+   */
+  private addCallEdge(
+    callerNodeId: string,
+    calleeNodeId: string,
+    line: number,
+    column: number,
+    type: EdgeType.Call | EdgeType.Instantiates = EdgeType.Call
+  ) {
+    const edgeId = `${type}:${callerNodeId}:${calleeNodeId}`;
+    let edge = this.graph.getEdge(edgeId);
+    if (!edge) {
+      edge = {
+        id: edgeId,
+        source: callerNodeId,
+        target: calleeNodeId,
+        type,
+        label: type === EdgeType.Call ? 'calls' : 'instantiates',
+        metadata: { callSites: [] },
+      };
+      this.graph.setEdge(edge);
+    }
+    edge.metadata!.callSites.push({ line, column });
+  }
+
+  /**
+   * モジュールレベル変数を読み書きしている関数・メソッドからのエッジを抽出
    */
-  private extractCallEdges(
+  private extractVariableAccessEdges(
     sourceFile: ts.SourceFile,
     filePath: string,
-    analyzer: TypeScriptAnalyzer
+    program: ts.Program,
+    variableNames: Set<string>
   ): void {
-    const visit = (node: ts.Node) => {
-      // 関数呼び出しを検出
-      if (ts.isCallExpression(node)) {
-        const expression = node.expression;
-        let functionName: string | undefined;
-
-        if (ts.isIdentifier(expression) && expression.text) {
-          functionName = expression.text;
-        } else if (ts.isPropertyAccessExpression(expression)) {
-          // obj.method() の形式
-          if (ts.isIdentifier(expression.name) && expression.name.text) {
-            functionName = expression.name.text;
-          }
-        }
+    const checker = program.getTypeChecker();
 
-        if (functionName) {
-          // このファイル内の関数ノードを探す
-          const fileNodes = this.fileToNodes.get(filePath) || [];
-          for (const nodeId of fileNodes) {
-            const node = this.nodeMap.get(nodeId);
-            if (node && (node.label === functionName || node.metadata?.name === functionName)) {
-              // 呼び出し元の関数を探す（現在のスコープ内）
-              const callerNodeId = this.findCallerNode(node, sourceFile);
-              if (callerNodeId) {
-                const edgeId = `call:${callerNodeId}:${nodeId}`;
-                if (!this.edgeMap.has(edgeId)) {
-                  const edge: GraphEdge = {
-                    id: edgeId,
-                    source: callerNodeId,
-                    target: nodeId,
-                    type: EdgeType.Call,
-                    label: 'calls',
-                  };
-                  this.edgeMap.set(edgeId, edge);
-                }
-              }
-            }
+    const visit = (node: ts.Node) => {
+      if (ts.isIdentifier(node) && variableNames.has(node.text) && this.isVariableAccess(node)) {
+        const variableNodeId = this.resolveVariableNodeId(node, checker);
+        const accessorNodeId = this.findEnclosingNodeId(node, filePath) || `file:${filePath}`;
+
+        if (variableNodeId && accessorNodeId !== variableNodeId) {
+          const type = this.isWriteAccess(node) ? EdgeType.Writes : EdgeType.Reads;
+          const position = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+          const edgeId = `${type}:${accessorNodeId}:${variableNodeId}`;
+
+          let edge = this.graph.getEdge(edgeId);
+          if (!edge) {
+            edge = {
+              id: edgeId,
+              source: accessorNodeId,
+              target: variableNodeId,
+              type,
+              label: type,
+              metadata: { accessSites: [] },
+            };
+            this.graph.setEdge(edge);
           }
+          edge.metadata!.accessSites.push({
+            line: position.line + 1,
+            column: position.character + 1,
+          });
         }
       }
 
@@ -683,17 +1975,201 @@ export class DependencyExtractor {
   }
 
   /**
-   * 呼び出し元ノードを探す
+   * 識別子が変数へのアクセスかチェック（宣言名・インポート指定子・プロパティ名を除く）
+   */
+  private isVariableAccess(identifier: ts.Identifier): boolean {
+    const parent = identifier.parent;
+    if (
+      (ts.isVariableDeclaration(parent) && parent.name === identifier) ||
+      ts.isImportSpecifier(parent) ||
+      ts.isImportClause(parent) ||
+      ts.isNamespaceImport(parent) ||
+      ts.isExportSpecifier(parent)
+    ) {
+      return false;
+    }
+    if (ts.isPropertyAccessExpression(parent) && parent.name === identifier) {
+      return false;
+    }
+    if (
+      (ts.isPropertyAssignment(parent) ||
+        ts.isPropertyDeclaration(parent) ||
+        ts.isMethodDeclaration(parent)) &&
+      parent.name === identifier
+    ) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 識別子が代入・インクリメントなどの書き込み対象かチェック
+   * （config.value = 1 のように変数が保持するオブジェクトへの書き込みも含む）
+   */
+  private isWriteAccess(identifier: ts.Identifier): boolean {
+    let target: ts.Node = identifier;
+    while (
+      (ts.isPropertyAccessExpression(target.parent) && target.parent.expression === target) ||
+      (ts.isElementAccessExpression(target.parent) && target.parent.expression === target) ||
+      ts.isParenthesizedExpression(target.parent)
+    ) {
+      target = target.parent;
+    }
+
+    const parent = target.parent;
+    if (
+      ts.isBinaryExpression(parent) &&
+      parent.left === target &&
+      parent.operatorToken.kind >= ts.SyntaxKind.FirstAssignment &&
+      parent.operatorToken.kind <= ts.SyntaxKind.LastAssignment
+    ) {
+      return true;
+    }
+    if (
+      (ts.isPrefixUnaryExpression(parent) || ts.isPostfixUnaryExpression(parent)) &&
+      (parent.operator === ts.SyntaxKind.PlusPlusToken ||
+        parent.operator === ts.SyntaxKind.MinusMinusToken)
+    ) {
+      return true;
+    }
+    return ts.isDeleteExpression(parent);
+  }
+
+  /**
+   * 識別子が参照しているモジュールレベル変数のノードIDを取得（インポート経由も辿る）
+   */
+  private resolveVariableNodeId(
+    identifier: ts.Identifier,
+    checker: ts.TypeChecker
+  ): string | undefined {
+    let symbol = ts.isShorthandPropertyAssignment(identifier.parent)
+      ? checker.getShorthandAssignmentValueSymbol(identifier.parent)
+      : checker.getSymbolAtLocation(identifier);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = checker.getAliasedSymbol(symbol);
+    }
+
+    const declaration = symbol?.valueDeclaration;
+    if (!declaration || !ts.isVariableDeclaration(declaration)) {
+      return undefined;
+    }
+
+    const nodeId = this.getDeclarationNodeId(
+      declaration,
+      path.normalize(declaration.getSourceFile().fileName)
+    );
+    return nodeId && this.graph.hasNode(nodeId) ? nodeId : undefined;
+  }
+
+  /**
+   * ASTノードを囲む関数・メソッド・変数宣言のうち、グラフ上のノードがある最も内側のものを探す
    */
-  private findCallerNode(callNode: GraphNode, sourceFile: ts.SourceFile): string | undefined {
-    // 簡易実装: ファイル内の関数ノードを返す
-    // より正確な実装には、ASTを再走査して呼び出し元の関数を特定する必要がある
-    const fileNodes = this.fileToNodes.get(callNode.filePath) || [];
-    for (const nodeId of fileNodes) {
-      const node = this.nodeMap.get(nodeId);
-      if (node && node.type === NodeType.Function) {
+  private findEnclosingNodeId(node: ts.Node, filePath: string): string | undefined {
+    let current: ts.Node | undefined = node.parent;
+    while (current && !ts.isSourceFile(current)) {
+      const nodeId = this.getDeclarationNodeId(current, filePath);
+      if (nodeId && this.graph.hasNode(nodeId)) {
         return nodeId;
       }
+      current = current.parent;
+    }
+    return undefined;
+  }
+
+  /**
+   * 宣言のASTノードに対応するグラフノードのIDを取得
+   */
+  private getDeclarationNodeId(node: ts.Node, filePath: string): string | undefined {
+    if (ts.isFunctionDeclaration(node) && node.name) {
+      return `function:${filePath}:${node.name.text}`;
+    }
+    const className = this.getClassName(node);
+    if (className) {
+      return `class:${filePath}:${className}`;
+    }
+    // 関数内のローカルな const helper = () => ... は、同じ名前のトップレベルの関数と区別するため対象外
+    if (
+      (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) &&
+      ts.isVariableDeclaration(node.parent) &&
+      ts.isIdentifier(node.parent.name) &&
+      this.isModuleLevelVariable(node.parent)
+    ) {
+      return `function:${filePath}:${node.parent.name.text}`;
+    }
+    const commonJsExportName = getCommonJsExportedFunctionName(node);
+    if (commonJsExportName) {
+      return `function:${filePath}:${commonJsExportName}`;
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      node.initializer &&
+      (ts.isFunctionExpression(node.initializer) || ts.isArrowFunction(node.initializer)) &&
+      this.isModuleLevelVariable(node)
+    ) {
+      return `function:${filePath}:${node.name.text}`;
+    }
+    const parentClassName = this.getClassName(node.parent);
+    if (ts.isMethodDeclaration(node) && ts.isIdentifier(node.name) && parentClassName) {
+      return `method:${filePath}:${parentClassName}.${node.name.text}`;
+    }
+    if (
+      (ts.isPropertyDeclaration(node) ||
+        ts.isConstructorDeclaration(node) ||
+        ts.isGetAccessorDeclaration(node) ||
+        ts.isSetAccessorDeclaration(node) ||
+        ts.isClassStaticBlockDeclaration(node)) &&
+      parentClassName
+    ) {
+      // メソッドノードを持たないクラスメンバー（プロパティ初期化子、コンストラクタなど）はクラスに属する
+      return `class:${filePath}:${parentClassName}`;
+    }
+    if (
+      ts.isVariableDeclaration(node) &&
+      ts.isIdentifier(node.name) &&
+      this.isModuleLevelVariable(node)
+    ) {
+      return `variable:${filePath}:${node.name.text}`;
+    }
+    return undefined;
+  }
+
+  /**
+   * 呼び出し元ノードを探す
+   * CallExpressionから親を辿り、囲んでいる関数・アロー関数・メソッド・クラスのプロパティ初期化子を特定する
+   * モジュールのトップレベル（変数の初期化を含む）での呼び出しはファイルノードを呼び出し元とする
+   */
+  private findCallerNode(callExpression: ts.Node, filePath: string): string {
+    const enclosingNodeId = this.findEnclosingNodeId(callExpression, filePath);
+    if (!enclosingNodeId || this.graph.getNode(enclosingNodeId)?.type === NodeType.Variable) {
+      return `file:${filePath}`;
+    }
+    return enclosingNodeId;
+  }
+
+  /**
+   * モジュールのトップレベルの変数宣言かチェック
+   */
+  private isModuleLevelVariable(declaration: ts.VariableDeclaration): boolean {
+    return ts.isSourceFile(declaration.parent.parent.parent);
+  }
+
+  /**
+   * グラフ上のクラス名を取得（クラス宣言の名前、またはモジュールレベルの変数に代入したクラス式の変数名）
+   */
+  private getClassName(node: ts.Node | undefined): string | undefined {
+    if (node && ts.isClassDeclaration(node)) {
+      return node.name?.text;
+    }
+    if (
+      node &&
+      ts.isClassExpression(node) &&
+      ts.isVariableDeclaration(node.parent) &&
+      node.parent.initializer === node &&
+      ts.isIdentifier(node.parent.name) &&
+      this.isModuleLevelVariable(node.parent)
+    ) {
+      return node.parent.name.text;
     }
     return undefined;
   }
@@ -701,10 +2177,10 @@ export class DependencyExtractor {
   /**
    * 親クラスを探す
    */
-  private findParentClass(node: ts.Node): ts.ClassDeclaration | undefined {
+  private findParentClass(node: ts.Node): ts.ClassLikeDeclaration | undefined {
     let current: ts.Node | undefined = node.parent;
     while (current) {
-      if (ts.isClassDeclaration(current)) {
+      if (ts.isClassLike(current)) {
         return current;
       }
       current = current.parent;
@@ -715,46 +2191,68 @@ export class DependencyExtractor {
   /**
    * クラス継承・実装関係のエッジを作成
    */
-  private createInheritanceEdges(cls: ClassInfo, analyzer: TypeScriptAnalyzer): void {
+  private createInheritanceEdges(cls: ClassInfo): void {
     const classNodeId = `class:${cls.filePath}:${cls.name}`;
 
     // extends関係
     if (cls.extends) {
-      const extendsNodeId = this.findNodeByName(cls.extends, NodeType.Class);
+      const extendsNodeId = this.resolveTypeReference(cls.extends, cls.filePath, [NodeType.Class]);
       if (extendsNodeId) {
-        const edgeId = `extends:${classNodeId}:${extendsNodeId}`;
-        if (!this.edgeMap.has(edgeId)) {
-          const edge: GraphEdge = {
-            id: edgeId,
-            source: classNodeId,
-            target: extendsNodeId,
-            type: EdgeType.Extends,
-            label: 'extends',
-          };
-          this.edgeMap.set(edgeId, edge);
-        }
+        this.addHeritageEdge(classNodeId, extendsNodeId, EdgeType.Extends);
       }
     }
 
-    // implements関係
+    // implements関係（クラスや型エイリアスを実装する場合もある）
     for (const interfaceName of cls.implements) {
-      const implementsNodeId = this.findNodeByName(interfaceName, NodeType.Interface);
+      const implementsNodeId = this.resolveTypeReference(interfaceName, cls.filePath, [
+        NodeType.Interface,
+        NodeType.Class,
+        NodeType.Type,
+      ]);
       if (implementsNodeId) {
-        const edgeId = `implements:${classNodeId}:${implementsNodeId}`;
-        if (!this.edgeMap.has(edgeId)) {
-          const edge: GraphEdge = {
-            id: edgeId,
-            source: classNodeId,
-            target: implementsNodeId,
-            type: EdgeType.Implements,
-            label: 'implements',
-          };
-          this.edgeMap.set(edgeId, edge);
-        }
+        this.addHeritageEdge(classNodeId, implementsNodeId, EdgeType.Implements);
+      }
+    }
+  }
+
+  /**
+   * インターフェース継承のエッジを作成（インターフェースはクラスも継承できる）
+   */
+  private createInterfaceInheritanceEdges(iface: InterfaceInfo): void {
+    const interfaceNodeId = `interface:${iface.filePath}:${iface.name}`;
+
+    for (const extendsName of iface.extends) {
+      const extendsNodeId = this.resolveTypeReference(extendsName, iface.filePath, [
+        NodeType.Interface,
+        NodeType.Class,
+        NodeType.Type,
+      ]);
+      if (extendsNodeId && extendsNodeId !== interfaceNodeId) {
+        this.addHeritageEdge(interfaceNodeId, extendsNodeId, EdgeType.Extends);
       }
     }
   }
 
+  /**
+   * 継承・実装のエッジを追加
+   */
+  private addHeritageEdge(
+    sourceNodeId: string,
+    targetNodeId: string,
+    type: EdgeType.Extends | EdgeType.Implements
+  ): void {
+    const edgeId = `${type}:${sourceNodeId}:${targetNodeId}`;
+    if (!this.graph.hasEdge(edgeId)) {
+      this.graph.setEdge({
+        id: edgeId,
+        source: sourceNodeId,
+        target: targetNodeId,
+        type,
+        label: type,
+      });
+    }
+  }
+
   /**
    * 親子関係のエッジを作成（ファイルと関数/クラス/メソッドの間）
    */
@@ -763,29 +2261,29 @@ export class DependencyExtractor {
     let edgeCount = 0;
     let skippedCount = 0;
 
-    for (const [nodeId, node] of this.nodeMap.entries()) {
+    for (const node of this.graph.getNodes()) {
       // parentIdが設定されている場合、親ノードへのエッジを作成
       if (node.parentId) {
-        if (this.nodeMap.has(node.parentId)) {
-          const edgeId = `parent:${node.parentId}:${nodeId}`;
-          if (!this.edgeMap.has(edgeId)) {
+        if (this.graph.hasNode(node.parentId)) {
+          const edgeId = `parent:${node.parentId}:${node.id}`;
+          if (!this.graph.hasEdge(edgeId)) {
             const edge: GraphEdge = {
               id: edgeId,
               source: node.parentId,
-              target: nodeId,
+              target: node.id,
               type: EdgeType.Reference,
               label: 'contains',
               metadata: {
                 relationship: 'parent-child',
               },
             };
-            this.edgeMap.set(edgeId, edge);
+            this.graph.setEdge(edge);
             edgeCount++;
 
             // 最初の数個のエッジをログ出力
             if (edgeCount <= 5) {
               console.log(
-                `[LLM-CodeMap] Created parent-child edge: ${node.parentId} -> ${nodeId} (${node.type})`
+                `[LLM-CodeMap] Created parent-child edge: ${node.parentId} -> ${node.id} (${node.type})`
               );
             }
           }
@@ -793,7 +2291,7 @@ export class DependencyExtractor {
           skippedCount++;
           if (skippedCount <= 5) {
             console.warn(
-              `[LLM-CodeMap] Parent node not found: ${node.parentId} for node ${nodeId}`
+              `[LLM-CodeMap] Parent node not found: ${node.parentId} for node ${node.id}`
             );
           }
         }
@@ -812,7 +2310,15 @@ export class DependencyExtractor {
     nodes: Array<{
       id: string;
       label: string;
-      type: 'file' | 'function' | 'class' | 'method' | 'interface' | 'type' | 'variable';
+      type:
+        | 'file'
+        | 'function'
+        | 'class'
+        | 'method'
+        | 'interface'
+        | 'type'
+        | 'variable'
+        | 'package';
       filePath?: string;
       line?: number;
       column?: number;
@@ -820,7 +2326,16 @@ export class DependencyExtractor {
     edges: Array<{
       source: string;
       target: string;
-      type: 'import' | 'export' | 'call' | 'extends' | 'implements' | 'reference';
+      type:
+        | 'import'
+        | 'export'
+        | 'call'
+        | 'extends'
+        | 'implements'
+        | 'reference'
+        | 'reads'
+        | 'writes'
+        | 'instantiates';
       label?: string;
     }>
   ): GraphData {
@@ -853,6 +2368,9 @@ export class DependencyExtractor {
         case 'variable':
           nodeType = NodeType.Variable;
           break;
+        case 'package':
+          nodeType = NodeType.Package;
+          break;
         default:
           nodeType = NodeType.File;
       }
@@ -862,7 +2380,9 @@ export class DependencyExtractor {
         label: n.label,
         type: nodeType,
         filePath:
-          n.filePath || n.id.replace(/^(file|function|class|method):/, '').split(':')[0] || '',
+          nodeType === NodeType.Package
+            ? n.filePath || ''
+            : n.filePath || n.id.replace(/^(file|function|class|method):/, '').split(':')[0] || '',
         line: n.line,
         column: n.column,
         metadata: {},
@@ -891,6 +2411,15 @@ export class DependencyExtractor {
         case 'reference':
           edgeType = EdgeType.Reference;
           break;
+        case 'reads':
+          edgeType = EdgeType.Reads;
+          break;
+        case 'writes':
+          edgeType = EdgeType.Writes;
+          break;
+        case 'instantiates':
+          edgeType = EdgeType.Instantiates;
+          break;
         default:
           edgeType = EdgeType.Reference;
       }
@@ -952,33 +2481,9 @@ export class DependencyExtractor {
   }
 
   /**
-   * 名前でノードを検索
+   * 名前でノードを検索（同名のノードが複数ある場合は最初に作成したもの）
    */
   private findNodeByName(name: string, type: NodeType): string | undefined {
-    for (const [nodeId, node] of this.nodeMap.entries()) {
-      if (node.label === name && node.type === type) {
-        return nodeId;
-      }
-    }
-    return undefined;
-  }
-
-  /**
-   * エクスポートでファイルを検索
-   */
-  private findFileByExport(exportName: string, analyzer: TypeScriptAnalyzer): string | undefined {
-    // 簡易実装: すべてのファイルノードをチェック
-    for (const [nodeId, node] of this.nodeMap.entries()) {
-      if (node.type === NodeType.File && node.label === exportName) {
-        return node.filePath;
-      }
-      if (
-        node.label === exportName &&
-        (node.type === NodeType.Function || node.type === NodeType.Class)
-      ) {
-        return node.filePath;
-      }
-    }
-    return undefined;
+    return this.graph.findFirstNodeIdByName(name, type);
   }
 }
@@ -0,0 +1,117 @@
+import * as vscode from 'vscode';
+import { Worker } from 'worker_threads';
+import * as os from 'os';
+import * as path from 'path';
+import { FileExtractionTask, FileExtractionResult } from './types';
+
+/**
+ * ファイルの読み込みと要素の抽出をワーカースレッドに分散するプール
+ * タスクをまとめて空いたワーカーに順番に割り当て、結果をメインスレッドに集める
+ */
+export class ExtractionWorkerPool {
+  private static readonly batchSize = 20; // 1回のメッセージで渡すファイル数
+  private static readonly maxWorkers = 4;
+  private static readonly workerScript = path.join(__dirname, 'extractionWorker.js');
+
+  private readonly workerCount: number;
+
+  /**
+   * @param workerCount ワーカー数（省略時はCPUのコア数から1つ減らした数、最大4）
+   */
+  constructor(workerCount?: number) {
+    this.workerCount =
+      workerCount ?? Math.max(1, Math.min(ExtractionWorkerPool.maxWorkers, os.cpus().length - 1));
+  }
+
+  /**
+   * すべてのタスクを処理して結果を返す（ワーカーは処理が終わると終了させる）
+   * 異常終了したワーカーに割り当てていたタスクは、1回だけ他のワーカーに割り当て直す
+   * それでも処理できなかったタスクと、キャンセル後のタスクの結果は含まれないため、呼び出し側で処理すること
+   */
+  async run(
+    tasks: FileExtractionTask[],
+    onProgress?: (completedCount: number, totalCount: number) => void,
+    token?: vscode.CancellationToken
+  ): Promise<FileExtractionResult[]> {
+    const queue: FileExtractionTask[][] = []; // 未処理のバッチ
+    for (let i = 0; i < tasks.length; i += ExtractionWorkerPool.batchSize) {
+      queue.push(tasks.slice(i, i + ExtractionWorkerPool.batchSize));
+    }
+
+    const workers = Array.from(
+      { length: Math.min(this.workerCount, queue.length) },
+      () => new Worker(ExtractionWorkerPool.workerScript)
+    );
+    console.log(
+      `[LLM-CodeMap] Extracting ${tasks.length} files in ${workers.length} worker threads...`
+    );
+
+    const results: FileExtractionResult[] = [];
+    const failedTasks: FileExtractionTask[] = [];
+    const requeuedBatches = new Set<FileExtractionTask[]>();
+    const idleWorkers = new Set(workers);
+    const inFlight = new Map<Worker, FileExtractionTask[]>(); // ワーカー -> 処理中のバッチ
+    try {
+      await new Promise<void>((resolve) => {
+        // 空いているワーカーにバッチを割り当てる（処理中のバッチがなくなったら終了）
+        const dispatch = () => {
+          for (const worker of idleWorkers) {
+            if (queue.length === 0 || token?.isCancellationRequested) {
+              break;
+            }
+            const batch = queue.shift()!;
+            idleWorkers.delete(worker);
+            inFlight.set(worker, batch);
+            worker.postMessage(batch);
+          }
+          if (inFlight.size === 0) {
+            resolve();
+          }
+        };
+
+        // 異常終了したワーカーのバッチを割り当て直す（2回目の失敗はあきらめる）
+        const onWorkerFailed = (worker: Worker) => {
+          const batch = inFlight.get(worker);
+          inFlight.delete(worker);
+          idleWorkers.delete(worker);
+          if (batch && requeuedBatches.has(batch)) {
+            failedTasks.push(...batch);
+          } else if (batch) {
+            requeuedBatches.add(batch);
+            queue.unshift(batch);
+          }
+          dispatch();
+        };
+
+        for (const worker of workers) {
+          worker.on('message', (batchResults: FileExtractionResult[]) => {
+            results.push(...batchResults);
+            onProgress?.(results.length, tasks.length);
+            inFlight.delete(worker);
+            idleWorkers.add(worker);
+            dispatch();
+          });
+          worker.on('error', (error) => {
+            console.warn(`[LLM-CodeMap] Extraction worker failed: ${error}`);
+            onWorkerFailed(worker);
+          });
+          worker.on('exit', () => onWorkerFailed(worker));
+        }
+        dispatch();
+      });
+    } finally {
+      await Promise.all(workers.map((worker) => worker.terminate()));
+    }
+
+    // すべてのワーカーが異常終了した場合は、残りのバッチもメインスレッドで処理される
+    if (!token?.isCancellationRequested) {
+      failedTasks.push(...queue.flat());
+    }
+    if (failedTasks.length > 0) {
+      console.warn(
+        `[LLM-CodeMap] ${failedTasks.length} files could not be extracted in worker threads and will be read on the main thread: ${failedTasks.map((task) => task.filePath).join(', ')}`
+      );
+    }
+    return results;
+  }
+}
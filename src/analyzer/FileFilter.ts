@@ -0,0 +1,244 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { ExclusionReason } from './types';
+import { findFiles, readFileContent } from '../utils/fileUtils';
+import { globToRegExp } from '../utils/globUtils';
+import { IgnoreRule, parseIgnoreFile, findMatchingIgnoreRule } from '../utils/ignoreUtils';
+
+/**
+ * globパターンと変換した正規表現
+ */
+interface CompiledGlob {
+  pattern: string;
+  regex: RegExp;
+}
+
+/**
+ * 読み込んだ除外ファイル
+ */
+interface IgnoreFile {
+  filePath: string;
+  directory: string; // ルートからの相対パス（ルート直下は''）
+  rules: IgnoreRule[];
+}
+
+/**
+ * ワークスペースフォルダごとの解析対象の設定
+ */
+interface RootFilter {
+  rootPath: string;
+  include: CompiledGlob[];
+  includeSource: string; // 説明用（codemap.include または filePattern）
+  exclude: CompiledGlob[];
+  ignoreFiles: IgnoreFile[]; // 浅いディレクトリから順に並べる（深いものほど優先）
+}
+
+/**
+ * 解析対象のファイルを決めるフィルター
+ * codemap.include / codemap.exclude の設定、.codemapignore、（設定で有効な場合）.gitignore を
+ * ワークスペースフォルダごとに読み込み、パスが除外されるかどうかとその理由を判定する
+ */
+export class FileFilter {
+  static readonly ignoreFileName = '.codemapignore';
+
+  private constructor(private readonly roots: RootFilter[]) {}
+
+  /**
+   * 各フォルダの設定と除外ファイルを読み込む
+   * @param filePattern 指定した場合はcodemap.includeの代わりに使う（Language Model Toolのパラメータ）
+   */
+  static async load(rootPaths: string[], filePattern?: string): Promise<FileFilter> {
+    const roots = await Promise.all(
+      rootPaths.map(async (rootPath): Promise<RootFilter> => {
+        const config = vscode.workspace.getConfiguration('codemap', vscode.Uri.file(rootPath));
+        const include = filePattern ? [filePattern] : config.get<string[]>('include', []);
+        const exclude = config.get<string[]>('exclude', []);
+        const ignoreFileNames = [FileFilter.ignoreFileName];
+        if (config.get<boolean>('respectGitignore', true)) {
+          ignoreFileNames.unshift('.gitignore');
+        }
+
+        const root: RootFilter = {
+          rootPath,
+          include: include.map(FileFilter.compileGlob),
+          includeSource: filePattern ? 'filePattern' : 'codemap.include',
+          exclude: exclude.map(FileFilter.compileGlob),
+          ignoreFiles: [],
+        };
+        root.ignoreFiles = await FileFilter.loadIgnoreFiles(root, ignoreFileNames);
+        return root;
+      })
+    );
+    return new FileFilter(roots);
+  }
+
+  /**
+   * ファイルを検索するときのincludeパターン
+   */
+  getIncludePatterns(rootPath: string): string[] {
+    return this.findRoot(rootPath)?.include.map((glob) => glob.pattern) || [];
+  }
+
+  /**
+   * ファイルの検索時に除外するパターン（node_modulesなどを検索しないため）
+   * 検索後にexplainで改めて判定するため、どの階層でも一致する単純なパターンだけを渡す
+   */
+  getSearchExclude(rootPath: string): string | undefined {
+    const patterns = (this.findRoot(rootPath)?.exclude || [])
+      .map((glob) => glob.pattern)
+      .filter((pattern) => pattern.startsWith('**/') && !/[{}]/.test(pattern));
+    return patterns.length > 0 ? `{${patterns.join(',')}}` : undefined;
+  }
+
+  /**
+   * ファイルが解析対象から除外されるかチェック
+   */
+  isExcluded(filePath: string): boolean {
+    return this.explain(filePath) !== undefined;
+  }
+
+  /**
+   * ファイルがexcludeの設定か除外ファイルで除外されるかチェック（includeは見ない。設定ファイル用）
+   */
+  isIgnored(filePath: string): boolean {
+    const root = this.findRoot(filePath);
+    return !!root && this.explainIgnored(root, this.getRelativePath(root, filePath)) !== undefined;
+  }
+
+  /**
+   * ファイルが解析対象から除外される理由を取得（除外されない場合はundefined）
+   */
+  explain(filePath: string): ExclusionReason | undefined {
+    const root = this.findRoot(filePath);
+    if (!root) {
+      return {
+        source: 'workspace',
+        description: 'The file is not inside any of the analyzed workspace folders.',
+      };
+    }
+
+    const relativePath = this.getRelativePath(root, filePath);
+    if (!root.include.some((glob) => glob.regex.test(relativePath))) {
+      return {
+        source: 'include',
+        description: `The file does not match any pattern in ${root.includeSource} (${root.include
+          .map((glob) => glob.pattern)
+          .join(', ')}).`,
+      };
+    }
+    return this.explainIgnored(root, relativePath);
+  }
+
+  /**
+   * excludeの設定と除外ファイルで除外される理由を取得
+   * ディレクトリが除外されている場合、その中のファイルは除外ファイルの!で取り消せない（gitと同じ）
+   */
+  private explainIgnored(root: RootFilter, relativePath: string): ExclusionReason | undefined {
+    const segments = relativePath.split('/');
+    for (let i = 1; i <= segments.length; i++) {
+      const currentPath = segments.slice(0, i).join('/');
+      const isDirectory = i < segments.length;
+
+      // ディレクトリは末尾に/を付けても判定する（'**/node_modules/**'をnode_modules自体に一致させるため）
+      const excludeGlob = root.exclude.find(
+        (glob) =>
+          glob.regex.test(currentPath) || (isDirectory && glob.regex.test(currentPath + '/'))
+      );
+      if (excludeGlob) {
+        return {
+          source: 'exclude',
+          pattern: excludeGlob.pattern,
+          description: `${isDirectory ? `The folder "${currentPath}" matches` : 'The file matches'} "${excludeGlob.pattern}" in codemap.exclude.`,
+        };
+      }
+
+      // 浅い除外ファイルから順に判定し、最後に一致したルールに従う
+      let matched: { ignoreFile: IgnoreFile; rule: IgnoreRule } | undefined;
+      for (const ignoreFile of root.ignoreFiles) {
+        const prefix = ignoreFile.directory ? ignoreFile.directory + '/' : '';
+        if (!currentPath.startsWith(prefix)) {
+          continue;
+        }
+        const rule = findMatchingIgnoreRule(
+          ignoreFile.rules,
+          currentPath.slice(prefix.length),
+          isDirectory
+        );
+        if (rule) {
+          matched = { ignoreFile, rule };
+        }
+      }
+      if (matched && !matched.rule.negated) {
+        const ignoreFileName = path.basename(matched.ignoreFile.filePath);
+        return {
+          source: 'ignoreFile',
+          pattern: matched.rule.pattern,
+          ignoreFilePath: matched.ignoreFile.filePath,
+          line: matched.rule.line,
+          description: `${isDirectory ? `The folder "${currentPath}" matches` : 'The file matches'} "${matched.rule.pattern}" in ${ignoreFileName} (line ${matched.rule.line}).`,
+        };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * パスが属するフォルダの設定を取得（入れ子の場合は最も深いもの）
+   */
+  private findRoot(filePath: string): RootFilter | undefined {
+    let found: RootFilter | undefined;
+    for (const root of this.roots) {
+      const relative = path.relative(root.rootPath, filePath);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        found = !found || root.rootPath.length > found.rootPath.length ? root : found;
+      }
+    }
+    return found;
+  }
+
+  private getRelativePath(root: RootFilter, filePath: string): string {
+    return path.relative(root.rootPath, filePath).split(path.sep).join('/');
+  }
+
+  /**
+   * フォルダ内の除外ファイルを読み込む（同じディレクトリでは.codemapignoreを.gitignoreより優先する）
+   */
+  private static async loadIgnoreFiles(
+    root: RootFilter,
+    fileNames: string[]
+  ): Promise<IgnoreFile[]> {
+    const filter = new FileFilter([{ ...root, ignoreFiles: [] }]);
+    const uris = await findFiles(
+      new vscode.RelativePattern(root.rootPath, `**/{${fileNames.join(',')}}`),
+      filter.getSearchExclude(root.rootPath)
+    );
+
+    const ignoreFiles: IgnoreFile[] = [];
+    for (const uri of uris) {
+      if (filter.isIgnored(uri.fsPath)) {
+        continue;
+      }
+      try {
+        const directory = path.dirname(filter.getRelativePath(root, uri.fsPath));
+        ignoreFiles.push({
+          filePath: uri.fsPath,
+          directory: directory === '.' ? '' : directory,
+          rules: parseIgnoreFile(await readFileContent(uri)),
+        });
+      } catch (error) {
+        console.warn(`[LLM-CodeMap] Failed to read ${uri.fsPath}: ${error}`);
+      }
+    }
+
+    const depth = (ignoreFile: IgnoreFile) =>
+      ignoreFile.directory ? ignoreFile.directory.split('/').length : 0;
+    const order = (ignoreFile: IgnoreFile) => fileNames.indexOf(path.basename(ignoreFile.filePath));
+    ignoreFiles.sort((a, b) => depth(a) - depth(b) || order(a) - order(b));
+    console.log(`[LLM-CodeMap] Loaded ${ignoreFiles.length} ignore files in ${root.rootPath}`);
+    return ignoreFiles;
+  }
+
+  private static compileGlob(pattern: string): CompiledGlob {
+    return { pattern, regex: globToRegExp(pattern.replace(/^\.\//, '')) };
+  }
+}
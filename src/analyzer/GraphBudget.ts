@@ -0,0 +1,327 @@
+import * as path from 'path';
+import { GraphData, GraphEdge, GraphNode, GraphTruncation, NodeType } from './types';
+
+/**
+ * 縮約の候補（ノードIDからまとめる先のノードIDを求める）
+ */
+interface DetailLevel {
+  level: GraphTruncation['level'];
+  folderDepth?: number;
+  groupOf: (node: GraphNode) => string;
+}
+
+/**
+ * ノード数・エッジ数の上限（予算）を超えたグラフを、Webviewで描画できる大きさに縮める
+ * シンボルをファイルに、ファイルをフォルダ・ワークスペースパッケージにまとめ、それでも超える場合は次数の低いノードを間引く
+ */
+export class GraphBudget {
+  /**
+   * @param maxNodes ノード数の上限（0は無制限）
+   * @param maxEdges エッジ数の上限（0は無制限）
+   */
+  constructor(
+    private readonly maxNodes: number,
+    private readonly maxEdges: number
+  ) {}
+
+  /**
+   * 上限を超えている場合は縮約・間引きしたグラフを返す（truncationに内容を記録する）
+   */
+  apply(graph: GraphData): GraphData {
+    if (this.fits(graph)) {
+      return { nodes: graph.nodes, edges: graph.edges };
+    }
+
+    const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+    let reduced = graph;
+    let chosen: DetailLevel | undefined;
+    for (const candidate of this.getDetailLevels(graph, nodeById)) {
+      reduced = this.collapse(graph, candidate);
+      chosen = candidate;
+      if (this.fits(reduced)) {
+        break;
+      }
+    }
+    const collapsedNodeCount = chosen
+      ? graph.nodes.filter((n) => chosen!.groupOf(n) !== n.id).length
+      : 0;
+    const groupCount = reduced.nodes.filter((n) => !nodeById.has(n.id)).length;
+
+    const pruned = this.prune(reduced);
+    const keptNodeIds = new Set(pruned.nodes.map((n) => n.id));
+    const hiddenNodeTypes: Record<string, number> = {};
+    for (const node of graph.nodes) {
+      if (!keptNodeIds.has(node.id)) {
+        hiddenNodeTypes[node.type] = (hiddenNodeTypes[node.type] || 0) + 1;
+      }
+    }
+
+    const truncation: GraphTruncation = {
+      maxNodes: this.maxNodes,
+      maxEdges: this.maxEdges,
+      originalNodeCount: graph.nodes.length,
+      originalEdgeCount: graph.edges.length,
+      level: chosen?.level,
+      folderDepth: chosen?.folderDepth,
+      groupCount,
+      collapsedNodeCount,
+      prunedNodeCount: reduced.nodes.length - pruned.nodes.length,
+      hiddenNodeTypes,
+    };
+    console.log(
+      `[LLM-CodeMap] Graph exceeds the budget (${graph.nodes.length} nodes, ${graph.edges.length} edges): ` +
+        `reduced to ${pruned.nodes.length} nodes, ${pruned.edges.length} edges at ${truncation.level ?? 'symbol'} level`
+    );
+    return { ...pruned, truncation };
+  }
+
+  /**
+   * 縮約・間引きの内容を説明する文章を作成（Webviewの通知とツールの結果に使う）
+   */
+  static describe(truncation: GraphTruncation): string {
+    const levelText =
+      truncation.level === 'folder'
+        ? `grouped by folder and workspace package (depth ${truncation.folderDepth})`
+        : truncation.level === 'file'
+          ? 'grouped by file'
+          : 'shown at full detail';
+    const hidden = Object.entries(truncation.hiddenNodeTypes)
+      .sort(([, a], [, b]) => b - a)
+      .map(([type, count]) => `${count} ${type}`)
+      .join(', ');
+    const limits = [
+      truncation.maxNodes > 0 ? `${truncation.maxNodes} nodes` : undefined,
+      truncation.maxEdges > 0 ? `${truncation.maxEdges} edges` : undefined,
+    ].filter(Boolean);
+
+    return (
+      `The graph (${truncation.originalNodeCount} nodes, ${truncation.originalEdgeCount} edges) ` +
+      `exceeds the limit of ${limits.join(' / ')}, so it is ${levelText}` +
+      (truncation.prunedNodeCount > 0
+        ? ` and ${truncation.prunedNodeCount} low-degree nodes were pruned`
+        : '') +
+      `. Hidden: ${hidden || 'none'}.`
+    );
+  }
+
+  private fits(graph: GraphData): boolean {
+    return (
+      (this.maxNodes <= 0 || graph.nodes.length <= this.maxNodes) &&
+      (this.maxEdges <= 0 || graph.edges.length <= this.maxEdges)
+    );
+  }
+
+  /**
+   * 細かい順に縮約の候補を作成（ファイル単位、深いディレクトリからワークスペースフォルダまでのフォルダ単位）
+   */
+  private getDetailLevels(graph: GraphData, nodeById: Map<string, GraphNode>): DetailLevel[] {
+    // シンボルのノードは親を辿って所属するファイルのノードにまとめる
+    const fileOf = (node: GraphNode) => this.findFileNode(node, nodeById);
+    const levels: DetailLevel[] = [
+      { level: 'file', groupOf: (node) => fileOf(node)?.id ?? node.id },
+    ];
+
+    const maxDepth = graph.nodes
+      .filter((n) => n.type === NodeType.File)
+      .reduce((max, n) => Math.max(max, this.getDirectorySegments(n).length), 0);
+    for (let depth = maxDepth; depth >= 0; depth--) {
+      levels.push({
+        level: 'folder',
+        folderDepth: depth,
+        groupOf: (node) => {
+          const file = fileOf(node);
+          if (!file) {
+            return node.id;
+          }
+          const packageNodeId = `package:${file.metadata?.workspacePackage}`;
+          if (file.metadata?.workspacePackage && nodeById.has(packageNodeId)) {
+            return packageNodeId;
+          }
+          return `folder:${this.getFolderPath(file, depth)}`;
+        },
+      });
+    }
+    return levels;
+  }
+
+  /**
+   * ノードをまとめる先に置き換え、まとめたノード間のエッジを種類ごとに1本にする
+   */
+  private collapse(graph: GraphData, detailLevel: DetailLevel): GraphData {
+    const nodeById = new Map(graph.nodes.map((n) => [n.id, n]));
+    const groupIds = new Map(graph.nodes.map((n) => [n.id, detailLevel.groupOf(n)]));
+
+    const nodes = new Map<string, GraphNode>();
+    for (const node of graph.nodes) {
+      const groupId = groupIds.get(node.id)!;
+      if (groupId === node.id) {
+        nodes.set(node.id, node);
+      } else if (!nodes.has(groupId) && !nodeById.has(groupId)) {
+        nodes.set(groupId, this.createFolderNode(groupId, node, nodeById));
+      }
+      if (node.type === NodeType.File && !nodeById.has(groupId)) {
+        nodes.get(groupId)!.metadata!.fileCount++;
+      }
+    }
+    // まとめた先が元のグラフのノード（ファイル・パッケージなど）の場合は、グラフでの順序を保つ
+    const orderedNodes = [
+      ...graph.nodes.filter((n) => nodes.has(n.id)),
+      ...Array.from(nodes.values()).filter((n) => !nodeById.has(n.id)),
+    ];
+
+    const edges = new Map<string, GraphEdge[]>();
+    for (const edge of graph.edges) {
+      const source = groupIds.get(edge.source) ?? edge.source;
+      const target = groupIds.get(edge.target) ?? edge.target;
+      if (source === target) {
+        continue;
+      }
+      const key = `${edge.type}:${source}:${target}`;
+      const merged = edges.get(key);
+      if (merged) {
+        merged.push(edge);
+      } else {
+        edges.set(key, [edge]);
+      }
+    }
+
+    return {
+      nodes: orderedNodes,
+      edges: Array.from(edges.entries()).map(([key, group]) => {
+        const [first] = group;
+        const source = groupIds.get(first.source) ?? first.source;
+        const target = groupIds.get(first.target) ?? first.target;
+        if (group.length === 1 && source === first.source && target === first.target) {
+          return first;
+        }
+        return {
+          id: key,
+          source,
+          target,
+          type: first.type,
+          label: first.label,
+          metadata: {
+            edgeCount: group.length,
+            crossFolder: group.some((e) => e.metadata?.crossFolder) || undefined,
+          },
+        };
+      }),
+    };
+  }
+
+  /**
+   * 縮約で作成するフォルダのノード（ワークスペースフォルダのノードがあれば、その子にする）
+   */
+  private createFolderNode(
+    nodeId: string,
+    member: GraphNode,
+    nodeById: Map<string, GraphNode>
+  ): GraphNode {
+    const directory = nodeId.slice('folder:'.length);
+    const workspaceFolder: string | undefined = this.findFileNode(member, nodeById)?.metadata
+      ?.workspaceFolder;
+    const workspaceFolderNodeId = `folder:${workspaceFolder}`;
+    const relative = workspaceFolder ? path.relative(workspaceFolder, directory) : '';
+    return {
+      id: nodeId,
+      label: relative ? relative.split(path.sep).join('/') + '/' : path.basename(directory),
+      type: NodeType.Folder,
+      filePath: directory,
+      parentId:
+        workspaceFolderNodeId !== nodeId && nodeById.has(workspaceFolderNodeId)
+          ? workspaceFolderNodeId
+          : undefined,
+      metadata: {
+        directory,
+        workspaceFolder,
+        fileCount: 0,
+        overview: true,
+      },
+    };
+  }
+
+  /**
+   * 次数（接続しているエッジの数）の低いノードから、上限に収まるまで間引く
+   * 他のノードの親になっているノード（フォルダ・パッケージ）は残す
+   */
+  private prune(graph: GraphData): GraphData {
+    if (this.fits(graph)) {
+      return graph;
+    }
+
+    const incidentEdges = new Map<string, number[]>(graph.nodes.map((n) => [n.id, []]));
+    graph.edges.forEach((edge, index) => {
+      incidentEdges.get(edge.source)?.push(index);
+      incidentEdges.get(edge.target)?.push(index);
+    });
+    const parentIds = new Set(graph.nodes.map((n) => n.parentId).filter(Boolean));
+    const candidates = graph.nodes
+      .filter((n) => !parentIds.has(n.id))
+      .sort(
+        (a, b) =>
+          incidentEdges.get(a.id)!.length - incidentEdges.get(b.id)!.length ||
+          a.id.localeCompare(b.id)
+      );
+
+    const removedNodeIds = new Set<string>();
+    const removedEdges = new Set<number>();
+    for (const node of candidates) {
+      const nodeCount = graph.nodes.length - removedNodeIds.size;
+      const edgeCount = graph.edges.length - removedEdges.size;
+      if (
+        (this.maxNodes <= 0 || nodeCount <= this.maxNodes) &&
+        (this.maxEdges <= 0 || edgeCount <= this.maxEdges)
+      ) {
+        break;
+      }
+      removedNodeIds.add(node.id);
+      incidentEdges.get(node.id)!.forEach((index) => removedEdges.add(index));
+    }
+
+    return {
+      nodes: graph.nodes.filter((n) => !removedNodeIds.has(n.id)),
+      edges: graph.edges.filter((_, index) => !removedEdges.has(index)),
+    };
+  }
+
+  /**
+   * ファイルのディレクトリをワークスペースフォルダからの深さdepthまでに切り詰めたパス
+   */
+  private getFolderPath(file: GraphNode, depth: number): string {
+    const workspaceFolder: string | undefined = file.metadata?.workspaceFolder;
+    if (!workspaceFolder) {
+      return path.dirname(file.filePath);
+    }
+    return path.join(workspaceFolder, ...this.getDirectorySegments(file).slice(0, depth));
+  }
+
+  /**
+   * ワークスペースフォルダからファイルのディレクトリまでのパスの要素
+   */
+  private getDirectorySegments(file: GraphNode): string[] {
+    const workspaceFolder: string | undefined = file.metadata?.workspaceFolder;
+    if (!workspaceFolder) {
+      return [];
+    }
+    const relative = path.relative(workspaceFolder, path.dirname(file.filePath));
+    return relative && !relative.startsWith('..') ? relative.split(path.sep) : [];
+  }
+
+  /**
+   * ノードが所属するファイルのノード（親を辿って探す。ファイルに属さないノードはundefined）
+   */
+  private findFileNode(node: GraphNode, nodeById: Map<string, GraphNode>): GraphNode | undefined {
+    const visited = new Set<string>();
+    for (
+      let current: GraphNode | undefined = node;
+      current && !visited.has(current.id);
+      current = current.parentId ? nodeById.get(current.parentId) : undefined
+    ) {
+      visited.add(current.id);
+      if (current.type === NodeType.File) {
+        return current;
+      }
+    }
+    return undefined;
+  }
+}
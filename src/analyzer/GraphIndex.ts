@@ -0,0 +1,200 @@
+import { EdgeType, GraphData, GraphEdge, GraphNode, NodeType } from './types';
+
+/**
+ * グラフのノードとエッジを、名前・ファイル・隣接関係の索引とともに保持する
+ * （名前やファイルからのノードの検索、ノードに接続するエッジの取得を全件の走査なしで行う）
+ * 索引の中の順序はノード・エッジを登録した順序と同じにする
+ */
+export class GraphIndex {
+  private readonly nodes = new Map<string, GraphNode>();
+  private readonly edges = new Map<string, GraphEdge>();
+  private readonly nodesByName = new Map<string, Set<string>>(); // 種類:名前 -> ノードID
+  private readonly nodesByFile = new Map<string, Set<string>>(); // ファイルパス -> ノードID
+  private readonly outgoingEdges = new Map<string, Set<string>>(); // ノードID -> 出ていくエッジのID
+  private readonly incomingEdges = new Map<string, Set<string>>(); // ノードID -> 入ってくるエッジのID
+
+  /**
+   * GraphDataから索引を作成
+   */
+  static fromGraphData(graphData: GraphData): GraphIndex {
+    const index = new GraphIndex();
+    graphData.nodes.forEach((node) => index.setNode(node));
+    graphData.edges.forEach((edge) => index.setEdge(edge));
+    return index;
+  }
+
+  get nodeCount(): number {
+    return this.nodes.size;
+  }
+
+  get edgeCount(): number {
+    return this.edges.size;
+  }
+
+  clear(): void {
+    this.nodes.clear();
+    this.edges.clear();
+    this.nodesByName.clear();
+    this.nodesByFile.clear();
+    this.outgoingEdges.clear();
+    this.incomingEdges.clear();
+  }
+
+  hasNode(nodeId: string): boolean {
+    return this.nodes.has(nodeId);
+  }
+
+  getNode(nodeId: string): GraphNode | undefined {
+    return this.nodes.get(nodeId);
+  }
+
+  getNodes(): GraphNode[] {
+    return Array.from(this.nodes.values());
+  }
+
+  /**
+   * ノードを登録（同じIDのノードがあれば置き換える）
+   */
+  setNode(node: GraphNode): void {
+    const previous = this.nodes.get(node.id);
+    if (previous) {
+      this.unindexNode(previous, node);
+    }
+    this.nodes.set(node.id, node);
+    addToIndex(this.nodesByName, this.getNameKey(node.type, node.label), node.id);
+    if (node.filePath) {
+      addToIndex(this.nodesByFile, node.filePath, node.id);
+    }
+  }
+
+  /**
+   * ノードを削除（接続しているエッジは削除しない）
+   */
+  deleteNode(nodeId: string): void {
+    const node = this.nodes.get(nodeId);
+    if (node) {
+      this.unindexNode(node);
+      this.nodes.delete(nodeId);
+    }
+  }
+
+  hasEdge(edgeId: string): boolean {
+    return this.edges.has(edgeId);
+  }
+
+  getEdge(edgeId: string): GraphEdge | undefined {
+    return this.edges.get(edgeId);
+  }
+
+  getEdges(): GraphEdge[] {
+    return Array.from(this.edges.values());
+  }
+
+  /**
+   * エッジを登録（同じIDのエッジがあれば置き換える）
+   */
+  setEdge(edge: GraphEdge): void {
+    const previous = this.edges.get(edge.id);
+    if (previous && (previous.source !== edge.source || previous.target !== edge.target)) {
+      this.deleteEdge(edge.id);
+    }
+    this.edges.set(edge.id, edge);
+    addToIndex(this.outgoingEdges, edge.source, edge.id);
+    addToIndex(this.incomingEdges, edge.target, edge.id);
+  }
+
+  deleteEdge(edgeId: string): void {
+    const edge = this.edges.get(edgeId);
+    if (edge) {
+      removeFromIndex(this.outgoingEdges, edge.source, edgeId);
+      removeFromIndex(this.incomingEdges, edge.target, edgeId);
+      this.edges.delete(edgeId);
+    }
+  }
+
+  /**
+   * 種類と名前（ラベル）が一致するノードのIDを取得（登録順）
+   */
+  findNodeIdsByName(name: string, type: NodeType): string[] {
+    return Array.from(this.nodesByName.get(this.getNameKey(type, name)) ?? []);
+  }
+
+  /**
+   * 種類と名前（ラベル）が一致するノードのうち、最初に登録したもののIDを取得（配列を作らない）
+   */
+  findFirstNodeIdByName(name: string, type: NodeType): string | undefined {
+    return this.nodesByName.get(this.getNameKey(type, name))?.values().next().value;
+  }
+
+  /**
+   * ファイルに属するノード（ファイル自身とその中のシンボル）のIDを取得（登録順）
+   */
+  getNodeIdsInFile(filePath: string): string[] {
+    return Array.from(this.nodesByFile.get(filePath) ?? []);
+  }
+
+  /**
+   * ノードから出ていくエッジを取得（typesを指定した場合はその種類のみ）
+   */
+  getOutgoingEdges(nodeId: string, types?: EdgeType[]): GraphEdge[] {
+    return this.collectEdges(this.outgoingEdges.get(nodeId), types);
+  }
+
+  /**
+   * ノードに入ってくるエッジを取得（typesを指定した場合はその種類のみ）
+   */
+  getIncomingEdges(nodeId: string, types?: EdgeType[]): GraphEdge[] {
+    return this.collectEdges(this.incomingEdges.get(nodeId), types);
+  }
+
+  private collectEdges(edgeIds: Set<string> | undefined, types?: EdgeType[]): GraphEdge[] {
+    const edges: GraphEdge[] = [];
+    for (const edgeId of edgeIds ?? []) {
+      const edge = this.edges.get(edgeId)!;
+      if (!types || types.includes(edge.type)) {
+        edges.push(edge);
+      }
+    }
+    return edges;
+  }
+
+  /**
+   * 索引からノードを外す（置き換え後のノードで索引のキーが変わらない場合は、登録順を保つため残す）
+   */
+  private unindexNode(node: GraphNode, replacement?: GraphNode): void {
+    const nameKey = this.getNameKey(node.type, node.label);
+    if (!replacement || this.getNameKey(replacement.type, replacement.label) !== nameKey) {
+      removeFromIndex(this.nodesByName, nameKey, node.id);
+    }
+    if (node.filePath && replacement?.filePath !== node.filePath) {
+      removeFromIndex(this.nodesByFile, node.filePath, node.id);
+    }
+  }
+
+  private getNameKey(type: NodeType, name: string): string {
+    return `${type}:${name}`;
+  }
+}
+
+/**
+ * 親子関係（ファイル・クラスなどがシンボルを含む）のエッジかどうか
+ */
+export function isContainsEdge(edge: GraphEdge): boolean {
+  return edge.type === EdgeType.Reference && edge.label === 'contains';
+}
+
+function addToIndex(index: Map<string, Set<string>>, key: string, value: string): void {
+  const values = index.get(key);
+  if (values) {
+    values.add(value);
+  } else {
+    index.set(key, new Set([value]));
+  }
+}
+
+function removeFromIndex(index: Map<string, Set<string>>, key: string, value: string): void {
+  const values = index.get(key);
+  if (values?.delete(value) && values.size === 0) {
+    index.delete(key);
+  }
+}
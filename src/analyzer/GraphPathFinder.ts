@@ -0,0 +1,195 @@
+import { GraphIndex, isContainsEdge } from './GraphIndex';
+import { EdgeType, GraphEdge, GraphPath } from './types';
+
+/**
+ * グラフ上の2つのノード集合の間の経路を、依存の向き（エッジのsourceからtarget）に辿って検索する
+ * 親子関係（contains）のエッジは経路に含めず、同じノードを2回通る経路は作らない
+ */
+export class GraphPathFinder {
+  private readonly successors = new Map<string, string[]>(); // ノードID -> 辿れる隣のノードID
+
+  /**
+   * @param edgeTypes 辿るエッジの種類（未指定の場合はすべて）
+   */
+  constructor(
+    private readonly graph: GraphIndex,
+    private readonly edgeTypes?: EdgeType[]
+  ) {}
+
+  /**
+   * 始点のいずれかから終点のいずれかへの経路を、短い順にmaxPaths本まで検索（Yenのk最短経路。1本なら最短経路）
+   * @param maxLength 経路の長さ（エッジの数）の上限（指定した場合は、その長さまでのすべての経路をmaxPaths本まで）
+   */
+  findPaths(
+    sourceIds: string[],
+    targetIds: string[],
+    maxPaths: number,
+    maxLength?: number
+  ): GraphPath[] {
+    const targets = new Set(targetIds.filter((id) => this.graph.hasNode(id)));
+    const sources = sourceIds.filter((id) => this.graph.hasNode(id) && !targets.has(id));
+    const first = this.search(sources, targets, new Set(), new Map(), maxLength);
+    if (!first || maxPaths < 1) {
+      return [];
+    }
+
+    const found: string[][] = [first];
+    const foundKeys = new Set([first.join('\n')]);
+    const candidates: string[][] = [];
+    while (found.length < maxPaths) {
+      const previous = found[found.length - 1];
+      // 直前の経路のi番目のノードから分岐する経路を探す（-1は始点の選び直し）
+      for (let i = -1; i < previous.length - 1; i++) {
+        const root = previous.slice(0, i + 1);
+        const rootKey = root.join('\n');
+        const blockedSteps = new Map<string, Set<string>>();
+        const blockedStarts = new Set<string>();
+        for (const path of found) {
+          if (path.slice(0, i + 1).join('\n') !== rootKey) {
+            continue;
+          }
+          if (i < 0) {
+            blockedStarts.add(path[0]);
+          } else {
+            addStep(blockedSteps, path[i], path[i + 1]);
+          }
+        }
+
+        const spurLength = maxLength === undefined ? undefined : maxLength - Math.max(i, 0);
+        const spur =
+          i < 0
+            ? this.search(
+                sources.filter((id) => !blockedStarts.has(id)),
+                targets,
+                new Set(),
+                blockedSteps,
+                spurLength
+              )
+            : this.search(
+                [previous[i]],
+                targets,
+                new Set(root.slice(0, i)),
+                blockedSteps,
+                spurLength
+              );
+        if (!spur) {
+          continue;
+        }
+        const candidate = [...root.slice(0, Math.max(i, 0)), ...spur];
+        const key = candidate.join('\n');
+        if (!foundKeys.has(key) && !candidates.some((c) => c.join('\n') === key)) {
+          candidates.push(candidate);
+        }
+      }
+      if (candidates.length === 0) {
+        break;
+      }
+
+      // 候補のうち最も短いもの（同じ長さなら先に見つけたもの）を次の経路にする
+      let shortest = 0;
+      candidates.forEach((c, index) => {
+        if (c.length < candidates[shortest].length) {
+          shortest = index;
+        }
+      });
+      const [next] = candidates.splice(shortest, 1);
+      found.push(next);
+      foundKeys.add(next.join('\n'));
+    }
+
+    return found.map((nodeIds) => ({
+      nodeIds,
+      edgeIds: this.getStepEdges(nodeIds).map((e) => e.id),
+    }));
+  }
+
+  /**
+   * 幅優先探索で、始点のいずれかから最も近い終点までのノードIDの列を求める
+   * @param blockedNodes 通らないノード
+   * @param blockedSteps 通らないノード間の移動（ノードID -> 移動先のノードID）
+   */
+  private search(
+    startIds: string[],
+    targets: Set<string>,
+    blockedNodes: Set<string>,
+    blockedSteps: Map<string, Set<string>>,
+    maxLength?: number
+  ): string[] | undefined {
+    const previous = new Map<string, string | undefined>();
+    let frontier: string[] = [];
+    for (const startId of startIds) {
+      if (!blockedNodes.has(startId) && !previous.has(startId)) {
+        previous.set(startId, undefined);
+        frontier.push(startId);
+      }
+    }
+
+    for (
+      let length = 0;
+      frontier.length > 0 && (maxLength === undefined || length < maxLength);
+      length++
+    ) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const successorId of this.getSuccessors(nodeId)) {
+          if (
+            previous.has(successorId) ||
+            blockedNodes.has(successorId) ||
+            blockedSteps.get(nodeId)?.has(successorId)
+          ) {
+            continue;
+          }
+          previous.set(successorId, nodeId);
+          if (targets.has(successorId)) {
+            const nodeIds = [successorId];
+            for (let id = previous.get(successorId); id !== undefined; id = previous.get(id)) {
+              nodeIds.unshift(id);
+            }
+            return nodeIds;
+          }
+          next.push(successorId);
+        }
+      }
+      frontier = next;
+    }
+    return undefined;
+  }
+
+  private getSuccessors(nodeId: string): string[] {
+    let successorIds = this.successors.get(nodeId);
+    if (!successorIds) {
+      successorIds = Array.from(
+        new Set(
+          this.graph
+            .getOutgoingEdges(nodeId, this.edgeTypes)
+            .filter((edge) => !isContainsEdge(edge))
+            .map((edge) => edge.target)
+        )
+      );
+      this.successors.set(nodeId, successorIds);
+    }
+    return successorIds;
+  }
+
+  /**
+   * 経路の隣り合うノードの間のエッジ（同じノードの間に辿れるエッジが複数ある場合はすべて）
+   */
+  private getStepEdges(nodeIds: string[]): GraphEdge[] {
+    return nodeIds
+      .slice(1)
+      .flatMap((targetId, index) =>
+        this.graph
+          .getOutgoingEdges(nodeIds[index], this.edgeTypes)
+          .filter((edge) => edge.target === targetId && !isContainsEdge(edge))
+      );
+  }
+}
+
+function addStep(steps: Map<string, Set<string>>, from: string, to: string): void {
+  const targets = steps.get(from);
+  if (targets) {
+    targets.add(to);
+  } else {
+    steps.set(from, new Set([to]));
+  }
+}
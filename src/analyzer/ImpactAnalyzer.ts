@@ -0,0 +1,69 @@
+import { GraphIndex, isContainsEdge } from './GraphIndex';
+import { EdgeType, GraphEdge } from './types';
+
+/**
+ * 影響範囲の検索で辿るエッジの種類（変更が伝わる依存関係）
+ */
+export const IMPACT_EDGE_TYPES: EdgeType[] = [
+  EdgeType.Import,
+  EdgeType.Call,
+  EdgeType.Extends,
+  EdgeType.Implements,
+  EdgeType.Instantiates,
+  EdgeType.Reads,
+  EdgeType.Writes,
+];
+
+/**
+ * 変更したノードに推移的に依存するノードを、依存関係を逆向き（エッジのtargetからsource）に辿って検索する
+ * 親子関係（contains）のエッジは辿らない（ファイルを変更した場合は、呼び出し側でその中のシンボルも始点にする）
+ */
+export class ImpactAnalyzer {
+  /**
+   * @param edgeTypes 辿るエッジの種類
+   */
+  constructor(
+    private readonly graph: GraphIndex,
+    private readonly edgeTypes: EdgeType[] = IMPACT_EDGE_TYPES
+  ) {}
+
+  /**
+   * 幅優先探索で、影響を受けるノードと始点からの距離（始点は0）を求める
+   * @param maxDepth 辿る距離の上限（未指定の場合は無制限）
+   */
+  findDependents(startIds: string[], maxDepth?: number): Map<string, number> {
+    const distances = new Map<string, number>();
+    let frontier = startIds.filter((id) => this.graph.hasNode(id));
+    frontier.forEach((id) => distances.set(id, 0));
+
+    for (
+      let distance = 1;
+      frontier.length > 0 && (maxDepth === undefined || distance <= maxDepth);
+      distance++
+    ) {
+      const next: string[] = [];
+      for (const nodeId of frontier) {
+        for (const edge of this.graph.getIncomingEdges(nodeId, this.edgeTypes)) {
+          if (isContainsEdge(edge) || distances.has(edge.source)) {
+            continue;
+          }
+          distances.set(edge.source, distance);
+          next.push(edge.source);
+        }
+      }
+      frontier = next;
+    }
+    return distances;
+  }
+
+  /**
+   * 影響を受けるノードの間の、辿ったエッジ
+   */
+  getImpactEdges(distances: Map<string, number>): GraphEdge[] {
+    return Array.from(distances.keys()).flatMap((nodeId) =>
+      this.graph
+        .getIncomingEdges(nodeId, this.edgeTypes)
+        .filter((edge) => !isContainsEdge(edge) && distances.has(edge.source))
+    );
+  }
+}
@@ -0,0 +1,127 @@
+import * as ts from 'typescript';
+import * as path from 'path';
+
+/**
+ * tsconfig.json / jsconfig.json から読み込んだプロジェクト情報
+ */
+export interface ProjectConfig {
+  configPath: string;
+  options: ts.CompilerOptions;
+  fileNames: string[];
+  projectReferences: string[]; // 参照先プロジェクトの設定ファイルパス
+}
+
+/**
+ * プロジェクト設定（tsconfig/jsconfig）の読み込み
+ */
+export class ProjectConfigLoader {
+  /**
+   * 設定ファイル群を読み込む（project referencesも辿る）
+   */
+  loadProjects(configPaths: string[]): ProjectConfig[] {
+    const projects = new Map<string, ProjectConfig>();
+    const queue = configPaths.map((p) => path.normalize(p));
+
+    while (queue.length > 0) {
+      const configPath = queue.shift()!;
+      if (projects.has(configPath)) {
+        continue;
+      }
+
+      const project = this.parseConfig(configPath);
+      if (!project) {
+        continue;
+      }
+
+      projects.set(configPath, project);
+      queue.push(...project.projectReferences);
+    }
+
+    console.log(`[LLM-CodeMap] Loaded ${projects.size} TypeScript/JavaScript projects`);
+    return Array.from(projects.values());
+  }
+
+  /**
+   * ファイルが所属するプロジェクトを決定するための索引を作成
+   * 複数のプロジェクトに含まれる場合は、設定ファイルが最も深い階層にあるものを優先
+   */
+  createFileIndex(projects: ProjectConfig[]): Map<string, ProjectConfig> {
+    const index = new Map<string, ProjectConfig>();
+    const sorted = [...projects].sort(
+      (a, b) => path.dirname(a.configPath).length - path.dirname(b.configPath).length
+    );
+
+    for (const project of sorted) {
+      for (const fileName of project.fileNames) {
+        index.set(path.normalize(fileName), project);
+      }
+    }
+
+    return index;
+  }
+
+  /**
+   * ファイルがいずれかのプロジェクトのディレクトリ配下にあるかチェック
+   * （配下にあるのにfileNamesに含まれない場合は include/exclude で除外されている）
+   */
+  isInsideProjectDirectory(filePath: string, projects: ProjectConfig[]): boolean {
+    const normalized = path.normalize(filePath);
+    return projects.some((project) => {
+      const relative = path.relative(path.dirname(project.configPath), normalized);
+      return !relative.startsWith('..') && !path.isAbsolute(relative);
+    });
+  }
+
+  /**
+   * ファイルの追加に合わせて、プロジェクトに含まれるファイルの一覧を読み直す
+   */
+  reloadFileNames(project: ProjectConfig): void {
+    const reloaded = this.parseConfig(project.configPath);
+    if (reloaded) {
+      project.fileNames = reloaded.fileNames;
+    }
+  }
+
+  /**
+   * 設定ファイルを解析（extendsチェーンはTypeScriptが解決する）
+   */
+  private parseConfig(configPath: string): ProjectConfig | undefined {
+    const configFile = ts.readConfigFile(configPath, ts.sys.readFile);
+    if (configFile.error) {
+      console.warn(
+        `[LLM-CodeMap] Failed to read ${configPath}: ${ts.flattenDiagnosticMessageText(configFile.error.messageText, '\n')}`
+      );
+      return undefined;
+    }
+
+    // jsconfig.jsonはTypeScriptのエディタ既定値と同様にallowJsを有効にする
+    const existingOptions: ts.CompilerOptions =
+      path.basename(configPath) === 'jsconfig.json'
+        ? { allowJs: true, maxNodeModuleJsDepth: 2, allowSyntheticDefaultImports: true }
+        : {};
+
+    try {
+      const parsed = ts.parseJsonConfigFileContent(
+        configFile.config,
+        ts.sys,
+        path.dirname(configPath),
+        existingOptions,
+        configPath
+      );
+
+      const projectReferences = (parsed.projectReferences || []).map((ref) =>
+        path.normalize(ts.resolveProjectReferencePath(ref))
+      );
+
+      return {
+        configPath,
+        options: parsed.options,
+        fileNames: parsed.fileNames,
+        projectReferences,
+      };
+    } catch (error) {
+      console.warn(`[LLM-CodeMap] Failed to parse ${configPath}: ${error}`);
+      return undefined;
+    }
+  }
+}
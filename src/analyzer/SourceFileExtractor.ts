@@ -0,0 +1,1067 @@
+import * as ts from 'typescript';
+import {
+  FunctionInfo,
+  ClassInfo,
+  MethodInfo,
+  PropertyInfo,
+  InterfaceInfo,
+  InterfaceMemberInfo,
+  TypeAliasInfo,
+  EnumInfo,
+  EnumMemberInfo,
+  VariableInfo,
+  ImportInfo,
+  ImportBinding,
+  ImportKind,
+  ExportInfo,
+  FileAnalysisResult,
+} from './types';
+import {
+  getCommonJsExportName,
+  getCommonJsExportedFunctionName,
+  isModuleExports,
+} from '../utils/commonJsUtils';
+
+/**
+ * 1ファイルの構文木から関数・クラス・インポート・エクスポートなどを抽出する
+ * （プログラム全体を必要としないため、ワーカースレッドでも実行できる。vscodeには依存しないこと）
+ */
+export class SourceFileExtractor {
+  /**
+   * ソースファイルの要素を抽出
+   */
+  extract(sourceFile: ts.SourceFile, filePath: string): FileAnalysisResult {
+    const result: FileAnalysisResult = {
+      functions: [],
+      classes: [],
+      interfaces: [],
+      typeAliases: [],
+      enums: [],
+      variables: [],
+      imports: [],
+      exports: [],
+    };
+    this.analyzeSourceFile(sourceFile, filePath, result);
+    return result;
+  }
+
+  /**
+   * ソースファイルを解析
+   */
+  private analyzeSourceFile(
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    result: FileAnalysisResult
+  ): void {
+    const { functions, classes, interfaces, typeAliases, enums, variables, imports, exports } =
+      result;
+    const visit = (node: ts.Node) => {
+      try {
+        // 関数宣言
+        if (ts.isFunctionDeclaration(node) && node.name) {
+          const funcInfo = this.extractFunctionInfo(node, sourceFile, filePath);
+          if (funcInfo) {
+            functions.push(funcInfo);
+          }
+        }
+
+        // 関数式（変数代入）
+        if (ts.isVariableStatement(node)) {
+          for (const declaration of node.declarationList.declarations) {
+            if (declaration.initializer && ts.isFunctionExpression(declaration.initializer)) {
+              const funcInfo = this.extractFunctionExpressionInfo(
+                declaration,
+                sourceFile,
+                filePath
+              );
+              if (funcInfo) {
+                functions.push(funcInfo);
+              }
+            }
+          }
+        }
+
+        // アロー関数（変数代入）
+        if (ts.isVariableStatement(node)) {
+          for (const declaration of node.declarationList.declarations) {
+            if (declaration.initializer && ts.isArrowFunction(declaration.initializer)) {
+              const funcInfo = this.extractArrowFunctionInfo(declaration, sourceFile, filePath);
+              if (funcInfo) {
+                functions.push(funcInfo);
+              }
+            }
+          }
+        }
+
+        // モジュールレベルの変数・定数（関数を代入しているものを除く。クラス式はクラスとして扱う）
+        if (ts.isVariableStatement(node) && ts.isSourceFile(node.parent)) {
+          for (const declaration of node.declarationList.declarations) {
+            if (declaration.initializer && ts.isClassExpression(declaration.initializer)) {
+              const classInfo = this.extractClassExpressionInfo(declaration, sourceFile, filePath);
+              if (classInfo) {
+                classes.push(classInfo);
+              }
+              continue;
+            }
+            const variableInfo = this.extractVariableInfo(declaration, sourceFile, filePath);
+            if (variableInfo) {
+              variables.push(variableInfo);
+            }
+          }
+        }
+
+        // クラス宣言
+        if (ts.isClassDeclaration(node) && node.name) {
+          const classInfo = this.extractClassInfo(node, sourceFile, filePath);
+          if (classInfo) {
+            classes.push(classInfo);
+          }
+        }
+
+        // インターフェース宣言
+        if (ts.isInterfaceDeclaration(node)) {
+          interfaces.push(this.extractInterfaceInfo(node, sourceFile, filePath));
+        }
+
+        // 型エイリアス宣言
+        if (ts.isTypeAliasDeclaration(node)) {
+          typeAliases.push(this.extractTypeAliasInfo(node, sourceFile, filePath));
+        }
+
+        // 列挙型宣言
+        if (ts.isEnumDeclaration(node)) {
+          enums.push(this.extractEnumInfo(node, sourceFile, filePath));
+        }
+
+        // インポート
+        if (ts.isImportDeclaration(node)) {
+          const importInfo = this.extractImportInfo(node, sourceFile, filePath);
+          if (importInfo) {
+            imports.push(importInfo);
+          }
+        }
+
+        // import x = require('module')、動的インポート import('module')、require('module')
+        if (ts.isImportEqualsDeclaration(node) || ts.isCallExpression(node)) {
+          const importInfo = this.extractModuleCallImportInfo(node, filePath);
+          if (importInfo) {
+            imports.push(importInfo);
+          }
+        }
+
+        // CommonJSのエクスポート（module.exports = ...、exports.name = ...）
+        if (
+          ts.isExpressionStatement(node) &&
+          ts.isSourceFile(node.parent) &&
+          ts.isBinaryExpression(node.expression) &&
+          node.expression.operatorToken.kind === ts.SyntaxKind.EqualsToken
+        ) {
+          this.extractCommonJsExports(node.expression, sourceFile, filePath, result);
+        }
+
+        // エクスポート
+        if (ts.isExportDeclaration(node) || ts.isExportAssignment(node)) {
+          const exportInfos = this.extractExportInfo(node, sourceFile, filePath);
+          exports.push(...exportInfos);
+        }
+
+        // 名前付きエクスポート（export function, export classなど）
+        const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+        if (modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
+          if (ts.isFunctionDeclaration(node)) {
+            const funcNode = node; // 型を明確に分離
+            const nodeName = funcNode.name;
+            if (nodeName && ts.isIdentifier(nodeName) && nodeName.text) {
+              const funcName = nodeName.text; // 安全に保存
+              const funcInfo = this.extractFunctionInfo(funcNode, sourceFile, filePath);
+              if (funcInfo) {
+                funcInfo.isExported = true;
+                const exportInfo: ExportInfo = {
+                  name: funcName,
+                  type: 'named',
+                  filePath,
+                  line: this.getNodePosition(funcNode, sourceFile, filePath).line + 1,
+                  column: this.getNodePosition(funcNode, sourceFile, filePath).character + 1,
+                };
+                exports.push(exportInfo);
+              }
+            }
+          } else if (ts.isClassDeclaration(node)) {
+            const classNode = node; // 型を明確に分離
+            const nodeName = classNode.name;
+            if (nodeName && ts.isIdentifier(nodeName) && nodeName.text) {
+              const className = nodeName.text; // 安全に保存
+              const classInfo = this.extractClassInfo(classNode, sourceFile, filePath);
+              if (classInfo) {
+                classInfo.isExported = true;
+                const exportInfo: ExportInfo = {
+                  name: className,
+                  type: 'named',
+                  filePath,
+                  line: this.getNodePosition(classNode, sourceFile, filePath).line + 1,
+                  column: this.getNodePosition(classNode, sourceFile, filePath).character + 1,
+                };
+                exports.push(exportInfo);
+              }
+            }
+          } else if (ts.isVariableStatement(node)) {
+            for (const declaration of node.declarationList.declarations) {
+              if (ts.isIdentifier(declaration.name)) {
+                const position = this.getNodePosition(declaration, sourceFile, filePath);
+                exports.push({
+                  name: declaration.name.text,
+                  type: 'named',
+                  filePath,
+                  line: position.line + 1,
+                  column: position.character + 1,
+                });
+              }
+            }
+          } else if (
+            ts.isInterfaceDeclaration(node) ||
+            ts.isTypeAliasDeclaration(node) ||
+            ts.isEnumDeclaration(node)
+          ) {
+            const position = this.getNodePosition(node, sourceFile, filePath);
+            exports.push({
+              name: node.name.text,
+              type: 'named',
+              filePath,
+              line: position.line + 1,
+              column: position.character + 1,
+            });
+          }
+        }
+      } catch (error) {
+        // 個別のノード解析でエラーが発生しても続行
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        const stackTrace = error instanceof Error ? error.stack : '';
+        console.warn(`[LLM-CodeMap] Error analyzing node in ${filePath}: ${errorMessage}`);
+        if (stackTrace) {
+          console.warn(
+            `[LLM-CodeMap] Stack trace: ${stackTrace.split('\n').slice(0, 5).join('\n')}`
+          );
+        }
+      }
+
+      ts.forEachChild(node, visit);
+    };
+
+    try {
+      visit(sourceFile);
+    } catch (error) {
+      console.warn(`[LLM-CodeMap] Error in visit function for ${filePath}: ${error}`);
+    }
+  }
+
+  /**
+   * ノードの位置情報を安全に取得
+   */
+  private getNodePosition(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): { line: number; character: number } {
+    try {
+      // node.posが有効な場合はそれを使用、そうでない場合はgetStart()を試す
+      let startPos: number;
+      if (node.pos !== undefined && node.pos >= 0) {
+        startPos = node.pos;
+      } else {
+        try {
+          startPos = node.getStart();
+        } catch (getStartError) {
+          // getStart()がエラーを投げた場合、node.posを使用（-1の可能性がある）
+          startPos = node.pos !== undefined ? node.pos : 0;
+        }
+      }
+
+      // startPosが有効な範囲内か確認
+      if (startPos < 0 || startPos >= sourceFile.text.length) {
+        return { line: 0, character: 0 };
+      }
+
+      return sourceFile.getLineAndCharacterOfPosition(startPos);
+    } catch (error) {
+      console.warn(`[LLM-CodeMap] Failed to get position for node in ${filePath}: ${error}`);
+      return { line: 0, character: 0 };
+    }
+  }
+
+  /**
+   * 関数情報を抽出
+   */
+  private extractFunctionInfo(
+    node: ts.FunctionDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): FunctionInfo | null {
+    if (!node.name || !ts.isIdentifier(node.name)) {
+      return null;
+    }
+
+    const pos = this.getNodePosition(node, sourceFile, filePath);
+    const parameters = node.parameters
+      .map((p) => {
+        const paramName = p.name;
+        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
+          return paramName.text;
+        }
+        // オブジェクトパターンや配列パターンの場合は空文字列を返す
+        return '';
+      })
+      .filter((p) => p !== '');
+
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    const nodeName = node.name;
+    if (!nodeName || !ts.isIdentifier(nodeName) || !nodeName.text) {
+      return null;
+    }
+    const name = nodeName.text; // 安全に保存
+    return {
+      name: name,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) || false,
+      isAsync: modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
+      parameters,
+      returnType: node.type ? this.getTypeText(node.type, sourceFile) : undefined,
+    };
+  }
+
+  /**
+   * 関数式情報を抽出
+   */
+  private extractFunctionExpressionInfo(
+    declaration: ts.VariableDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): FunctionInfo | null {
+    if (!ts.isIdentifier(declaration.name)) {
+      return null;
+    }
+
+    const initializer = declaration.initializer;
+    if (!initializer || !ts.isFunctionExpression(initializer)) {
+      return null;
+    }
+
+    const pos = this.getNodePosition(declaration, sourceFile, filePath);
+    const parameters = initializer.parameters
+      .map((p) => {
+        const paramName = p.name;
+        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
+          return paramName.text;
+        }
+        // オブジェクトパターンや配列パターンの場合は空文字列を返す
+        return '';
+      })
+      .filter((p) => p !== '');
+
+    const initializerModifiers = ts.canHaveModifiers(initializer)
+      ? ts.getModifiers(initializer)
+      : undefined;
+    const declName = declaration.name;
+    if (!ts.isIdentifier(declName) || !declName.text) {
+      return null;
+    }
+    const name = declName.text; // 安全に保存
+    return {
+      name: name,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.isExportedVariable(declaration),
+      isAsync: initializerModifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
+      parameters,
+      returnType: initializer.type ? this.getTypeText(initializer.type, sourceFile) : undefined,
+    };
+  }
+
+  /**
+   * アロー関数情報を抽出
+   */
+  private extractArrowFunctionInfo(
+    declaration: ts.VariableDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): FunctionInfo | null {
+    if (!ts.isIdentifier(declaration.name)) {
+      return null;
+    }
+
+    const initializer = declaration.initializer;
+    if (!initializer || !ts.isArrowFunction(initializer)) {
+      return null;
+    }
+
+    const pos = this.getNodePosition(declaration, sourceFile, filePath);
+    const parameters = initializer.parameters
+      .map((p) => {
+        const paramName = p.name;
+        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
+          return paramName.text;
+        }
+        // オブジェクトパターンや配列パターンの場合は空文字列を返す
+        return '';
+      })
+      .filter((p) => p !== '');
+
+    const declName = declaration.name;
+    if (!ts.isIdentifier(declName) || !declName.text) {
+      return null;
+    }
+    const name = declName.text; // 安全に保存
+    return {
+      name: name,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.isExportedVariable(declaration),
+      isAsync: initializer.modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
+      parameters,
+      returnType: initializer.type ? this.getTypeText(initializer.type, sourceFile) : undefined,
+    };
+  }
+
+  /**
+   * 変数情報を抽出
+   * 関数式・アロー関数の代入は関数として、require()・import() の結果はインポートとして扱うため除外する
+   * 分割代入（const { a, b } = ...）の変数は抽出しない
+   */
+  private extractVariableInfo(
+    declaration: ts.VariableDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): VariableInfo | null {
+    if (!ts.isIdentifier(declaration.name) || !declaration.name.text) {
+      return null;
+    }
+
+    const initializer = declaration.initializer;
+    if (
+      initializer &&
+      (ts.isFunctionExpression(initializer) ||
+        ts.isArrowFunction(initializer) ||
+        this.isModuleImportExpression(initializer))
+    ) {
+      return null;
+    }
+
+    const flags = declaration.parent.flags;
+    const pos = this.getNodePosition(declaration, sourceFile, filePath);
+    return {
+      name: declaration.name.text,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.isExportedVariable(declaration),
+      kind: flags & ts.NodeFlags.Const ? 'const' : flags & ts.NodeFlags.Let ? 'let' : 'var',
+      type: declaration.type ? this.getTypeText(declaration.type, sourceFile) : undefined,
+    };
+  }
+
+  /**
+   * require('m')、require('m').x、import('m')、await import('m') かチェック
+   */
+  private isModuleImportExpression(expression: ts.Expression): boolean {
+    let current = expression;
+    while (
+      ts.isAwaitExpression(current) ||
+      ts.isParenthesizedExpression(current) ||
+      ts.isPropertyAccessExpression(current)
+    ) {
+      current = current.expression;
+    }
+    return (
+      ts.isCallExpression(current) &&
+      (current.expression.kind === ts.SyntaxKind.ImportKeyword ||
+        (ts.isIdentifier(current.expression) && current.expression.text === 'require'))
+    );
+  }
+
+  /**
+   * 変数宣言がexportされた変数文に含まれるかチェック
+   */
+  private isExportedVariable(declaration: ts.VariableDeclaration): boolean {
+    const statement = declaration.parent.parent;
+    return ts.isVariableStatement(statement)
+      ? this.hasModifier(statement, ts.SyntaxKind.ExportKeyword)
+      : false;
+  }
+
+  /**
+   * 変数に代入したクラス式（const Foo = class {}）のクラス情報を抽出（変数名をクラス名とする）
+   */
+  private extractClassExpressionInfo(
+    declaration: ts.VariableDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): ClassInfo | null {
+    const initializer = declaration.initializer;
+    if (!ts.isIdentifier(declaration.name) || !initializer || !ts.isClassExpression(initializer)) {
+      return null;
+    }
+
+    const classInfo = this.extractClassInfo(
+      initializer,
+      sourceFile,
+      filePath,
+      declaration.name.text
+    );
+    if (classInfo) {
+      const pos = this.getNodePosition(declaration, sourceFile, filePath);
+      classInfo.line = pos.line + 1;
+      classInfo.column = pos.character + 1;
+      classInfo.isExported = this.isExportedVariable(declaration);
+    }
+    return classInfo;
+  }
+
+  /**
+   * クラス情報を抽出（nameを指定しない場合はクラス宣言の名前を使う）
+   */
+  private extractClassInfo(
+    node: ts.ClassLikeDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    name: string | undefined = node.name?.text
+  ): ClassInfo | null {
+    if (!name) {
+      return null;
+    }
+
+    const pos = this.getNodePosition(node, sourceFile, filePath);
+    const methods: MethodInfo[] = [];
+    const properties: PropertyInfo[] = [];
+
+    // メソッドとプロパティを抽出
+    for (const member of node.members) {
+      const memberName = member.name;
+      if (
+        ts.isMethodDeclaration(member) &&
+        memberName &&
+        ts.isIdentifier(memberName) &&
+        memberName.text
+      ) {
+        const methodName = memberName.text; // 安全に保存
+        const methodPos = this.getNodePosition(member, sourceFile, filePath);
+        const parameters = member.parameters
+          .map((p) => {
+            const paramName = p.name;
+            if (paramName && ts.isIdentifier(paramName) && paramName.text) {
+              return paramName.text;
+            }
+            // オブジェクトパターンや配列パターンの場合は空文字列を返す
+            return '';
+          })
+          .filter((p) => p !== '');
+
+        const memberModifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
+        methods.push({
+          name: methodName,
+          filePath,
+          line: methodPos.line + 1,
+          column: methodPos.character + 1,
+          isPublic: !memberModifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword),
+          isStatic: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword) || false,
+          isAsync: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
+          parameters,
+          returnType: member.type ? this.getTypeText(member.type, sourceFile) : undefined,
+        });
+      }
+
+      if (ts.isPropertyDeclaration(member)) {
+        const propMemberName = member.name;
+        if (ts.isIdentifier(propMemberName) && propMemberName.text) {
+          const propName = propMemberName.text; // 安全に保存
+          const propPos = this.getNodePosition(member, sourceFile, filePath);
+          const memberModifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
+          properties.push({
+            name: propName,
+            filePath,
+            line: propPos.line + 1,
+            column: propPos.character + 1,
+            type: member.type ? this.getTypeText(member.type, sourceFile) : undefined,
+            isPublic: !memberModifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword),
+            isStatic: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword) || false,
+          });
+        }
+      }
+    }
+
+    return {
+      name: name,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: (() => {
+        const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+        return modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) || false;
+      })(),
+      extends: (() => {
+        const extendsClause = node.heritageClauses?.find(
+          (h) => h.token === ts.SyntaxKind.ExtendsKeyword
+        );
+        if (extendsClause && extendsClause.types.length > 0) {
+          const expression = extendsClause.types[0].expression;
+          if (expression && ts.isIdentifier(expression)) {
+            const exprText = expression.text;
+            if (exprText) {
+              return exprText; // ここはreturnなので問題ない
+            }
+          }
+        }
+        return undefined;
+      })(),
+      implements:
+        node.heritageClauses
+          ?.find((h) => h.token === ts.SyntaxKind.ImplementsKeyword)
+          ?.types.map((t) => {
+            const expr = t.expression;
+            if (expr && ts.isIdentifier(expr) && expr.text) {
+              return expr.text;
+            }
+            return '';
+          })
+          .filter((t) => t !== '') || [],
+      methods,
+      properties,
+    };
+  }
+
+  /**
+   * インターフェース情報を抽出
+   */
+  private extractInterfaceInfo(
+    node: ts.InterfaceDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): InterfaceInfo {
+    const pos = this.getNodePosition(node, sourceFile, filePath);
+    const members: InterfaceMemberInfo[] = [];
+
+    for (const member of node.members) {
+      if (!ts.isPropertySignature(member) && !ts.isMethodSignature(member)) {
+        continue;
+      }
+      const memberName = member.name;
+      if (!ts.isIdentifier(memberName) && !ts.isStringLiteral(memberName)) {
+        continue;
+      }
+
+      const memberPos = this.getNodePosition(member, sourceFile, filePath);
+      members.push({
+        name: memberName.text,
+        filePath,
+        line: memberPos.line + 1,
+        column: memberPos.character + 1,
+        kind: ts.isMethodSignature(member) ? 'method' : 'property',
+        type: member.type ? this.getTypeText(member.type, sourceFile) : undefined,
+        isOptional: !!member.questionToken,
+      });
+    }
+
+    return {
+      name: node.name.text,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      extends: this.getHeritageNames(node.heritageClauses, ts.SyntaxKind.ExtendsKeyword),
+      members,
+    };
+  }
+
+  /**
+   * 型エイリアス情報を抽出
+   */
+  private extractTypeAliasInfo(
+    node: ts.TypeAliasDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): TypeAliasInfo {
+    const pos = this.getNodePosition(node, sourceFile, filePath);
+    return {
+      name: node.name.text,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      type: this.getTypeText(node.type, sourceFile),
+      typeParameters: (node.typeParameters || []).map((p) => p.name.text),
+    };
+  }
+
+  /**
+   * 列挙型情報を抽出
+   */
+  private extractEnumInfo(
+    node: ts.EnumDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): EnumInfo {
+    const pos = this.getNodePosition(node, sourceFile, filePath);
+    const members: EnumMemberInfo[] = [];
+
+    for (const member of node.members) {
+      if (!ts.isIdentifier(member.name) && !ts.isStringLiteral(member.name)) {
+        continue;
+      }
+      members.push({
+        name: member.name.text,
+        value: member.initializer ? member.initializer.getText(sourceFile) : undefined,
+      });
+    }
+
+    return {
+      name: node.name.text,
+      filePath,
+      line: pos.line + 1,
+      column: pos.character + 1,
+      isExported: this.hasModifier(node, ts.SyntaxKind.ExportKeyword),
+      isConst: this.hasModifier(node, ts.SyntaxKind.ConstKeyword),
+      members,
+    };
+  }
+
+  /**
+   * 修飾子を持っているかチェック
+   */
+  private hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
+    return modifiers?.some((m) => m.kind === kind) || false;
+  }
+
+  /**
+   * extends / implements 句に書かれた型名を取得（名前空間付きの場合は末尾の名前）
+   */
+  private getHeritageNames(
+    heritageClauses: ts.NodeArray<ts.HeritageClause> | undefined,
+    token: ts.SyntaxKind.ExtendsKeyword | ts.SyntaxKind.ImplementsKeyword
+  ): string[] {
+    const clause = heritageClauses?.find((h) => h.token === token);
+    if (!clause) {
+      return [];
+    }
+
+    return clause.types
+      .map((t) => {
+        const expr = t.expression;
+        if (ts.isIdentifier(expr)) {
+          return expr.text;
+        }
+        if (ts.isPropertyAccessExpression(expr)) {
+          return expr.name.text;
+        }
+        return '';
+      })
+      .filter((name) => name !== '');
+  }
+
+  /**
+   * インポート情報を抽出
+   */
+  private extractImportInfo(
+    node: ts.ImportDeclaration,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): ImportInfo | null {
+    const moduleSpec = node.moduleSpecifier;
+    if (!moduleSpec || !ts.isStringLiteral(moduleSpec) || !moduleSpec.text) {
+      return null;
+    }
+
+    const from = moduleSpec.text;
+    const imports: string[] = [];
+    const bindings: ImportBinding[] = [];
+    let isDefault = false;
+    let isNamespace = false;
+
+    if (node.importClause) {
+      // デフォルトインポート
+      const importClauseName = node.importClause.name;
+      if (importClauseName && ts.isIdentifier(importClauseName) && importClauseName.text) {
+        const importName = importClauseName.text; // 安全に保存
+        imports.push(importName);
+        bindings.push({ name: importName, importedName: 'default' });
+        isDefault = true;
+      }
+
+      // 名前付きインポート
+      if (node.importClause.namedBindings) {
+        if (ts.isNamespaceImport(node.importClause.namedBindings)) {
+          const namespaceNameNode = node.importClause.namedBindings.name;
+          if (namespaceNameNode && ts.isIdentifier(namespaceNameNode) && namespaceNameNode.text) {
+            const namespaceName = namespaceNameNode.text; // 安全に保存
+            imports.push(namespaceName);
+            bindings.push({ name: namespaceName, importedName: '*' });
+            isNamespace = true;
+          }
+        } else if (ts.isNamedImports(node.importClause.namedBindings)) {
+          for (const element of node.importClause.namedBindings.elements) {
+            const elementNameNode = element.name;
+            if (elementNameNode && ts.isIdentifier(elementNameNode) && elementNameNode.text) {
+              const elementName = elementNameNode.text; // 安全に保存
+              imports.push(elementName);
+              bindings.push({
+                name: elementName,
+                importedName: element.propertyName?.text || elementName,
+              });
+            }
+          }
+        }
+      }
+    }
+
+    return {
+      filePath,
+      from,
+      kind: node.importClause ? 'static' : 'sideEffect',
+      imports,
+      bindings,
+      isDefault,
+      isNamespace,
+    };
+  }
+
+  /**
+   * import x = require()、import()、require() からインポート情報を抽出
+   * モジュール指定子が文字列リテラルでない場合は解決できないため無視する
+   */
+  private extractModuleCallImportInfo(
+    node: ts.ImportEqualsDeclaration | ts.CallExpression,
+    filePath: string
+  ): ImportInfo | null {
+    let specifier: ts.Expression | undefined;
+    let kind: ImportKind;
+    const bindings: ImportBinding[] = [];
+
+    if (ts.isImportEqualsDeclaration(node)) {
+      if (!ts.isExternalModuleReference(node.moduleReference)) {
+        return null;
+      }
+      specifier = node.moduleReference.expression;
+      kind = 'require';
+      bindings.push({ name: node.name.text, importedName: '*' });
+    } else if (node.expression.kind === ts.SyntaxKind.ImportKeyword) {
+      specifier = node.arguments[0];
+      kind = 'dynamic';
+    } else if (
+      ts.isIdentifier(node.expression) &&
+      node.expression.text === 'require' &&
+      node.arguments.length === 1
+    ) {
+      specifier = node.arguments[0];
+      kind = 'require';
+      bindings.push(...this.getRequireBindings(node));
+    } else {
+      return null;
+    }
+
+    if (!specifier || !ts.isStringLiteralLike(specifier) || !specifier.text) {
+      return null;
+    }
+
+    return {
+      filePath,
+      from: specifier.text,
+      kind,
+      imports: bindings.map((b) => b.name),
+      bindings,
+      isDefault: false,
+      isNamespace: bindings.some((b) => b.importedName === '*'),
+    };
+  }
+
+  /**
+   * require() の戻り値を受け取る変数から、インポートされた名前を取得
+   * const x = require('m')、const { a, b: c } = require('m')、const a = require('m').a に対応
+   */
+  private getRequireBindings(call: ts.CallExpression): ImportBinding[] {
+    let parent = call.parent;
+    let propertyName: string | undefined;
+    if (ts.isPropertyAccessExpression(parent) && parent.expression === call) {
+      propertyName = parent.name.text;
+      parent = parent.parent;
+    }
+    if (!ts.isVariableDeclaration(parent)) {
+      return [];
+    }
+
+    if (ts.isIdentifier(parent.name)) {
+      return [{ name: parent.name.text, importedName: propertyName || '*' }];
+    }
+
+    const bindings: ImportBinding[] = [];
+    if (!propertyName && ts.isObjectBindingPattern(parent.name)) {
+      for (const element of parent.name.elements) {
+        if (element.dotDotDotToken || !ts.isIdentifier(element.name)) {
+          continue;
+        }
+        const importedName =
+          element.propertyName && ts.isIdentifier(element.propertyName)
+            ? element.propertyName.text
+            : element.name.text;
+        bindings.push({ name: element.name.text, importedName });
+      }
+    }
+    return bindings;
+  }
+
+  /**
+   * CommonJSのエクスポート（module.exports = ...、exports.name = ...）を抽出
+   */
+  private extractCommonJsExports(
+    assignment: ts.BinaryExpression,
+    sourceFile: ts.SourceFile,
+    filePath: string,
+    result: FileAnalysisResult
+  ): void {
+    const { left, right } = assignment;
+    const position = this.getNodePosition(assignment, sourceFile, filePath);
+    const location = { filePath, line: position.line + 1, column: position.character + 1 };
+
+    if (isModuleExports(left)) {
+      if (!ts.isObjectLiteralExpression(right)) {
+        // module.exports = handler
+        result.exports.push({
+          name: 'export=',
+          type: 'default',
+          ...location,
+          localName: ts.isIdentifier(right) ? right.text : undefined,
+        });
+        return;
+      }
+
+      // module.exports = { a, b: c, d() {} }
+      for (const property of right.properties) {
+        const name =
+          property.name && (ts.isIdentifier(property.name) || ts.isStringLiteral(property.name))
+            ? property.name.text
+            : undefined;
+        if (!name) {
+          continue;
+        }
+        let localName: string | undefined;
+        if (ts.isShorthandPropertyAssignment(property)) {
+          localName = name;
+        } else if (ts.isPropertyAssignment(property) && ts.isIdentifier(property.initializer)) {
+          localName = property.initializer.text;
+        }
+        result.exports.push({ name, type: 'named', ...location, localName });
+      }
+      return;
+    }
+
+    const exportName = getCommonJsExportName(left);
+    if (!exportName) {
+      return;
+    }
+
+    result.exports.push({
+      name: exportName,
+      type: 'named',
+      ...location,
+      localName: ts.isIdentifier(right) ? right.text : undefined,
+    });
+
+    // exports.name = function () {} は関数として扱う
+    if (
+      (ts.isFunctionExpression(right) || ts.isArrowFunction(right)) &&
+      getCommonJsExportedFunctionName(right)
+    ) {
+      const modifiers = ts.canHaveModifiers(right) ? ts.getModifiers(right) : undefined;
+      result.functions.push({
+        name: exportName,
+        ...location,
+        isExported: true,
+        isAsync: modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
+        parameters: right.parameters
+          .map((p) => (ts.isIdentifier(p.name) ? p.name.text : ''))
+          .filter((p) => p !== ''),
+        returnType: right.type ? this.getTypeText(right.type, sourceFile) : undefined,
+      });
+    }
+  }
+
+  /**
+   * エクスポート情報を抽出
+   */
+  private extractExportInfo(
+    node: ts.Node,
+    sourceFile: ts.SourceFile,
+    filePath: string
+  ): ExportInfo[] {
+    const exports: ExportInfo[] = [];
+
+    if (ts.isExportDeclaration(node)) {
+      const position = this.getNodePosition(node, sourceFile, filePath);
+      const from =
+        node.moduleSpecifier && ts.isStringLiteral(node.moduleSpecifier)
+          ? node.moduleSpecifier.text
+          : undefined;
+
+      if (!node.exportClause) {
+        // export * from './module'
+        if (from) {
+          exports.push({
+            name: '*',
+            type: 'all',
+            filePath,
+            line: position.line + 1,
+            column: position.character + 1,
+            from,
+          });
+        }
+      } else if (ts.isNamespaceExport(node.exportClause)) {
+        // export * as ns from './module'
+        exports.push({
+          name: node.exportClause.name.text,
+          type: 'namespace',
+          filePath,
+          line: position.line + 1,
+          column: position.character + 1,
+          from,
+        });
+      } else if (ts.isNamedExports(node.exportClause)) {
+        for (const element of node.exportClause.elements) {
+          const elementNameNode = element.name;
+          if (elementNameNode && ts.isIdentifier(elementNameNode) && elementNameNode.text) {
+            const exportName = elementNameNode.text; // 安全に保存
+            exports.push({
+              name: exportName,
+              type: 'named',
+              filePath,
+              line: position.line + 1,
+              column: position.character + 1,
+              from,
+              propertyName: from ? element.propertyName?.text || exportName : undefined,
+            });
+          }
+        }
+      }
+    }
+
+    if (ts.isExportAssignment(node)) {
+      exports.push({
+        name: node.isExportEquals ? 'export=' : 'default',
+        type: 'default',
+        filePath,
+        line: this.getNodePosition(node, sourceFile, filePath).line + 1,
+        column: this.getNodePosition(node, sourceFile, filePath).character + 1,
+      });
+    }
+
+    return exports;
+  }
+
+  /**
+   * 型のテキスト表現を取得
+   */
+  private getTypeText(typeNode: ts.TypeNode, sourceFile: ts.SourceFile): string {
+    const printer = ts.createPrinter();
+    return printer.printNode(ts.EmitHint.Unspecified, typeNode, sourceFile);
+  }
+}
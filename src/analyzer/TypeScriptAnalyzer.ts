@@ -1,60 +1,273 @@
 import * as ts from 'typescript';
 import * as vscode from 'vscode';
 import * as path from 'path';
-import * as fs from 'fs';
 import {
   FileInfo,
-  FunctionInfo,
-  ClassInfo,
-  MethodInfo,
-  PropertyInfo,
   ImportInfo,
+  ExternalPackageInfo,
+  WorkspacePackageInfo,
   ExportInfo,
+  AnalysisResult,
+  FileChangeSet,
+  AnalysisBaseline,
+  FileExtractionResult,
+  ExclusionReason,
 } from './types';
 import {
   findFiles,
   readFileContent,
   isTypeScriptOrJavaScriptFile,
-  shouldExcludeFile,
+  fileExists,
 } from '../utils/fileUtils';
+import {
+  PackageJson,
+  readPackageJson,
+  findDeclaredDependency,
+  findInstalledVersion,
+  getPackageName,
+  isBuiltinModule,
+} from '../utils/packageUtils';
 import { normalizePath } from '../utils/pathUtils';
+import { hashContent } from '../utils/hashUtils';
+import { WorkspacePackageLoader } from './WorkspacePackageLoader';
+import { ProjectConfig, ProjectConfigLoader } from './ProjectConfigLoader';
+import { AnalysisCache } from './AnalysisCache';
+import { SourceFileExtractor } from './SourceFileExtractor';
+import { ExtractionWorkerPool } from './ExtractionWorkerPool';
+import { AnalysisProgress } from './AnalysisProgress';
+import { FileFilter } from './FileFilter';
+import { checkCancellation } from '../utils/cancellationUtils';
 
 /**
  * TypeScript Compiler APIを使用したコード解析エンジン
  */
 export class TypeScriptAnalyzer {
-  private program?: ts.Program;
+  /**
+   * プロジェクト設定に属さないファイル用のコンパイラオプション
+   */
+  private static readonly defaultCompilerOptions: ts.CompilerOptions = {
+    target: ts.ScriptTarget.Latest,
+    module: ts.ModuleKind.ESNext,
+    allowJs: true,
+    checkJs: false,
+    skipLibCheck: true,
+    noEmit: true,
+  };
+  // これより少ない場合はワーカーを起動せずに解析する（ワーカーの起動と受け渡しの時間の方が長くなるため）
+  private static readonly minFilesForWorkers = 50;
+
+  private fileToProgram: Map<string, ts.Program> = new Map();
   private sourceFiles: Map<string, ts.SourceFile> = new Map();
-  private workspacePath?: string;
+  private sourceFileCache: Map<string, ts.SourceFile> = new Map(); // プログラム間で共有するSourceFile
+  private fileContents: Map<string, string> = new Map(); // 読み込み済みのファイルの内容（CompilerHostで読み直さないため）
+  private resolutionCaches: Map<ts.Program, ts.ModuleResolutionCache> = new Map();
+  private packageJsonCache: Map<string, PackageJson | undefined> = new Map();
+  private sourceFileExtractor = new SourceFileExtractor();
+  private projectConfigLoader = new ProjectConfigLoader();
+  private workspacePackageLoader = new WorkspacePackageLoader();
+  private workspacePackages: WorkspacePackageInfo[] = [];
+  private localPackages: WorkspacePackageInfo[] = []; // ソースに解決するパッケージ（ワークスペースパッケージ、各フォルダのルート）
+  private rootPaths: string[] = [];
+  private fileFilter?: FileFilter;
+  private projects: ProjectConfig[] = [];
+  private projectPrograms: Map<ProjectConfig | undefined, ts.Program> = new Map(); // 差分解析で再利用するプロジェクトごとのプログラム
+
+  /**
+   * @param cache ファイルごとの抽出結果の永続キャッシュ（指定しない場合は毎回抽出する。構文解析は常に行う。
+   *   前回の解析の状態と比べた再検証はrevalidateWorkspaceを使う）
+   */
+  constructor(private readonly cache?: AnalysisCache) {}
 
   /**
    * ワークスペースを解析
+   * 複数のパスを指定した場合（マルチルートワークスペース）はすべてのフォルダをまとめて解析する
+   * tokenでキャンセルされた場合は vscode.CancellationError を投げる
    */
   async analyzeWorkspace(
-    workspacePath?: string,
-    filePattern?: string
-  ): Promise<{
-    files: FileInfo[];
-    functions: FunctionInfo[];
-    classes: ClassInfo[];
-    imports: ImportInfo[];
-    exports: ExportInfo[];
-  }> {
-    this.workspacePath = workspacePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-
-    if (!this.workspacePath) {
+    workspacePaths?: string | string[],
+    filePattern?: string,
+    token?: vscode.CancellationToken,
+    progress?: AnalysisProgress
+  ): Promise<AnalysisResult> {
+    const result = await this.loadWorkspace(workspacePaths, filePattern, token, progress);
+
+    // モジュール指定子とインポートされたシンボルをコンパイラで解決
+    await checkCancellation(token);
+    progress?.slice(90, 100).report('Resolving imports', 0, 0);
+    this.resolveImports(result.imports, result.exports);
+    this.resolveReExports(result.exports);
+
+    await this.completeAnalysis(result);
+    return result;
+  }
+
+  /**
+   * 前回の解析の状態（baseline）と比べて、内容が変わったファイルだけを解析し直す
+   * ファイルの読み込みとプログラムの作成はワークスペース全体で行うが、変更のないファイルのインポートの解決は省き、
+   * 前回の解決結果を使う（変更されたファイルをインポートしているファイルは、updateFilesと同じく解決をやり直す）
+   * プロジェクト設定やワークスペースパッケージが変わっていた場合は、すべてのファイルを解決してchangeSetを返さない
+   */
+  async revalidateWorkspace(
+    workspacePaths: string[],
+    baseline: AnalysisBaseline,
+    token?: vscode.CancellationToken,
+    progress?: AnalysisProgress
+  ): Promise<{ result: AnalysisResult; changeSet?: FileChangeSet }> {
+    const result = await this.loadWorkspace(workspacePaths, undefined, token, progress);
+    await checkCancellation(token);
+    progress?.slice(90, 100).report('Resolving imports', 0, 0);
+
+    if (this.getConfigurationHash(result) !== baseline.configurationHash) {
+      console.log(`[LLM-CodeMap] Project configuration changed since the last analysis`);
+      this.resolveImports(result.imports, result.exports);
+      this.resolveReExports(result.exports);
+      await this.completeAnalysis(result);
+      return { result };
+    }
+
+    // 内容または所属（プロジェクト・ワークスペースパッケージ）が変わったファイルと、なくなったファイル
+    const currentFiles = new Set(result.files.map((f) => f.path));
+    const changedFiles = new Set(
+      result.files
+        .filter((file) => {
+          const previous = baseline.files[file.path];
+          return (
+            !previous ||
+            previous.hash !== file.hash ||
+            previous.project !== file.project ||
+            previous.workspacePackage !== file.workspacePackage
+          );
+        })
+        .map((f) => f.path)
+    );
+    const removedFiles = new Set(Object.keys(baseline.files).filter((p) => !currentFiles.has(p)));
+    const touchedFiles = new Set([...changedFiles, ...removedFiles]);
+    const filesAdded = Array.from(changedFiles).some((p) => !baseline.files[p]);
+
+    // 変更のないファイルのインポート・エクスポートは、前回の解決結果に置き換える（ファイルの順序は保つ）
+    const groupByFile = <T extends { filePath: string }>(items: T[]) => {
+      const groups = new Map<string, T[]>();
+      for (const item of items) {
+        groups.set(item.filePath, [...(groups.get(item.filePath) || []), item]);
+      }
+      return groups;
+    };
+    const currentImports = groupByFile(result.imports);
+    const currentExports = groupByFile(result.exports);
+    const baselineImports = groupByFile(baseline.imports);
+    const baselineExports = groupByFile(baseline.exports);
+    result.imports = result.files.flatMap(
+      (f) => (changedFiles.has(f.path) ? currentImports : baselineImports).get(f.path) || []
+    );
+    result.exports = result.files.flatMap(
+      (f) => (changedFiles.has(f.path) ? currentExports : baselineExports).get(f.path) || []
+    );
+
+    const dependentFiles = this.resolveChangedImports(
+      result,
+      changedFiles,
+      touchedFiles,
+      filesAdded
+    );
+    console.log(
+      `[LLM-CodeMap] Revalidated workspace: ${changedFiles.size} changed, ${removedFiles.size} removed, ${dependentFiles.length} dependent files`
+    );
+
+    await this.completeAnalysis(result);
+    return {
+      result,
+      changeSet: {
+        changedFiles: Array.from(changedFiles),
+        removedFiles: Array.from(removedFiles),
+        dependentFiles,
+      },
+    };
+  }
+
+  /**
+   * 次回の解析で使う、解析の状態（グラフとオプションを除く）を作成
+   */
+  createBaseline(result: AnalysisResult): Omit<AnalysisBaseline, 'options' | 'graph'> {
+    return {
+      configurationHash: this.getConfigurationHash(result),
+      files: Object.fromEntries(
+        result.files.map((file) => [
+          file.path,
+          { hash: file.hash, project: file.project, workspacePackage: file.workspacePackage },
+        ])
+      ),
+      imports: result.imports,
+      exports: result.exports,
+    };
+  }
+
+  /**
+   * モジュールの解決に影響する設定（プロジェクト設定・ワークスペースパッケージ・フォルダ）のハッシュ
+   */
+  private getConfigurationHash(result: AnalysisResult): string {
+    return hashContent(
+      JSON.stringify({
+        projects: this.projects.map(({ configPath, options, projectReferences }) => ({
+          configPath,
+          options,
+          projectReferences,
+        })),
+        localPackages: this.localPackages,
+        workspaceFolders: result.workspaceFolders,
+      })
+    );
+  }
+
+  /**
+   * 解析の完了時の処理（抽出結果の保存とログ）
+   */
+  private async completeAnalysis(result: AnalysisResult): Promise<void> {
+    // 解析したファイルの抽出結果を保存（解析対象から外れたファイルの分は破棄）
+    await this.cache?.save(result.files.map((f) => f.path));
+
+    console.log(
+      `[LLM-CodeMap] Analysis complete: ${result.functions.length} functions, ${result.classes.length} classes, ${result.interfaces.length} interfaces, ${result.typeAliases.length} type aliases, ${result.enums.length} enums, ${result.variables.length} variables, ${result.imports.length} imports, ${result.exports.length} exports`
+    );
+  }
+
+  /**
+   * ファイルを検索して読み込み、プロジェクトごとのプログラムを作成して各ファイルの要素を抽出する
+   * （インポートの解決は呼び出し側で行う）
+   */
+  private async loadWorkspace(
+    workspacePaths: string | string[] | undefined,
+    filePattern: string | undefined,
+    token: vscode.CancellationToken | undefined,
+    progress: AnalysisProgress | undefined
+  ): Promise<AnalysisResult> {
+    this.rootPaths = (
+      workspacePaths === undefined
+        ? (vscode.workspace.workspaceFolders || []).map((folder) => folder.uri.fsPath)
+        : Array.isArray(workspacePaths)
+          ? workspacePaths
+          : [workspacePaths]
+    ).map((p) => path.normalize(p));
+
+    if (this.rootPaths.length === 0) {
       throw new Error('Workspace path is not available');
     }
 
-    // ファイルを検索
-    const pattern = filePattern || '**/*.{ts,tsx,js,jsx}';
-    console.log(`[LLM-CodeMap] Searching for files with pattern: ${pattern}`);
-    const uris = await findFiles(pattern);
-    console.log(`[LLM-CodeMap] Found ${uris.length} files matching pattern`);
+    this.fileToProgram.clear();
+    this.sourceFiles.clear();
+    this.sourceFileCache.clear();
+    this.fileContents.clear();
+    this.resolutionCaches.clear();
+    this.packageJsonCache.clear();
+    this.projectPrograms.clear();
+    await this.cache?.load();
+
+    // 解析対象の設定（include/exclude、.codemapignore、.gitignore）を読み込み、ファイルを検索
+    this.fileFilter = await FileFilter.load(this.rootPaths, filePattern);
+    const uris = await this.findFilesInRoots();
+    console.log(`[LLM-CodeMap] Found ${uris.length} files matching include patterns`);
 
     // TypeScript/JavaScriptファイルのみをフィルタ
-    const fileInfos: FileInfo[] = [];
-    let processedCount = 0;
+    const filePaths: string[] = [];
     let excludedCount = 0;
     let nonTsJsCount = 0;
     const totalFiles = uris.length;
@@ -63,645 +276,934 @@ export class TypeScriptAnalyzer {
 
     for (const uri of uris) {
       // 除外パターンチェック
-      if (shouldExcludeFile(uri.fsPath)) {
+      if (this.fileFilter.isExcluded(uri.fsPath)) {
         excludedCount++;
         continue;
       }
 
       if (isTypeScriptOrJavaScriptFile(uri.fsPath)) {
-        try {
-          const content = await readFileContent(uri);
-          fileInfos.push({
-            path: uri.fsPath,
-            content,
-          });
-          processedCount++;
-
-          // 進捗ログ（100ファイルごと）
-          if (processedCount % 100 === 0) {
-            console.log(
-              `[LLM-CodeMap] Processed ${processedCount} files (excluded: ${excludedCount}, non-TS/JS: ${nonTsJsCount})...`
-            );
-          }
-        } catch (error) {
-          console.warn(`[LLM-CodeMap] Failed to read file ${uri.fsPath}: ${error}`);
-        }
+        filePaths.push(uri.fsPath);
       } else {
         nonTsJsCount++;
       }
     }
 
     console.log(
-      `[LLM-CodeMap] Filtered to ${fileInfos.length} TypeScript/JavaScript files (excluded: ${excludedCount}, non-TS/JS: ${nonTsJsCount})`
+      `[LLM-CodeMap] Filtered to ${filePaths.length} TypeScript/JavaScript files (excluded: ${excludedCount}, non-TS/JS: ${nonTsJsCount})`
+    );
+
+    // ファイルを読み込む（ファイルが多い場合は要素の抽出もワーカースレッドで行う）
+    const { fileInfos, extractions } = await this.readFiles(
+      filePaths,
+      token,
+      progress?.slice(0, 40)
     );
 
-    // TypeScript Programを作成
-    const filePaths = fileInfos.map((f) => f.path);
-    console.log(`[LLM-CodeMap] Creating TypeScript program with ${filePaths.length} files...`);
+    // プロジェクト設定（tsconfig/jsconfig）を読み込み、ファイルを各プロジェクトに割り当てる
+    this.projects = await this.loadProjects();
+    const projectGroups = this.groupFilesByProject(fileInfos, this.projects);
 
-    const compilerOptions: ts.CompilerOptions = {
-      target: ts.ScriptTarget.Latest,
-      module: ts.ModuleKind.ESNext,
-      allowJs: true,
-      checkJs: false,
-      skipLibCheck: true,
+    // モノレポのワークスペースパッケージを検出
+    const workspaceFolders = this.rootPaths.map((rootPath) => ({
+      name:
+        vscode.workspace.workspaceFolders?.find((f) => path.normalize(f.uri.fsPath) === rootPath)
+          ?.name || path.basename(rootPath),
+      path: rootPath,
+    }));
+    this.workspacePackages = this.rootPaths.flatMap((rootPath) =>
+      this.workspacePackageLoader
+        .loadPackages(rootPath)
+        .map((pkg) => ({ ...pkg, workspaceFolder: rootPath }))
+    );
+    // フォルダ間のインポート（ルートのpackage.jsonの名前でのインポート）もソースに解決する
+    const rootPackages = this.rootPaths
+      .map((rootPath) => this.workspacePackageLoader.loadRootPackage(rootPath))
+      .filter((pkg): pkg is WorkspacePackageInfo => !!pkg);
+    this.localPackages = [...this.workspacePackages, ...rootPackages];
+
+    // 各ファイルを解析
+    const result: AnalysisResult = {
+      files: [],
+      functions: [],
+      classes: [],
+      interfaces: [],
+      typeAliases: [],
+      enums: [],
+      variables: [],
+      imports: [],
+      exports: [],
+      workspacePackages: this.workspacePackages,
+      workspaceFolders,
     };
 
-    try {
-      this.program = ts.createProgram(filePaths, compilerOptions);
-      console.log(`[LLM-CodeMap] TypeScript program created successfully`);
-    } catch (error) {
-      console.error(`[LLM-CodeMap] Failed to create TypeScript program: ${error}`);
-      throw error;
+    const analyzeProgress = progress?.slice(40, 90);
+    const totalCount = fileInfos.length;
+    let processedCount = 0;
+    for (const [project, groupFiles] of projectGroups) {
+      await checkCancellation(token);
+      const program = this.createProjectProgram(
+        project,
+        groupFiles.map((f) => f.path)
+      );
+
+      console.log(`[LLM-CodeMap] Analyzing ${groupFiles.length} source files...`);
+      let analyzedCount = 0;
+
+      for (const fileInfo of groupFiles) {
+        await checkCancellation(token);
+        analyzeProgress?.report('Analyzing files', ++processedCount, totalCount);
+        if (
+          this.analyzeProjectFile(
+            fileInfo,
+            program,
+            project,
+            result,
+            extractions.get(fileInfo.path)
+          )
+        ) {
+          analyzedCount++;
+
+          // 進捗ログ（50ファイルごと）
+          if (analyzedCount % 50 === 0) {
+            console.log(`[LLM-CodeMap] Analyzed ${analyzedCount}/${groupFiles.length} files...`);
+          }
+        }
+      }
     }
 
-    // 各ファイルを解析
-    const functions: FunctionInfo[] = [];
-    const classes: ClassInfo[] = [];
-    const imports: ImportInfo[] = [];
-    const exports: ExportInfo[] = [];
+    return result;
+  }
 
-    console.log(`[LLM-CodeMap] Analyzing ${fileInfos.length} source files...`);
-    let analyzedCount = 0;
+  /**
+   * 変更されたファイルだけを再解析し、解析結果を更新
+   * 変更されたファイルを含むプログラムは前回のプログラムを再利用して作り直し、
+   * 変更されたファイルをインポートしているファイルはインポートの解決だけをやり直す
+   */
+  async updateFiles(
+    result: AnalysisResult,
+    changedPaths: string[],
+    deletedPaths: string[]
+  ): Promise<FileChangeSet> {
+    const removedFiles = new Set(deletedPaths.map((p) => path.normalize(p)));
+    const changedFiles = new Set(
+      changedPaths
+        .map((p) => path.normalize(p))
+        .filter((p) => !removedFiles.has(p) && this.findRootPath(p))
+        .filter((p) => isTypeScriptOrJavaScriptFile(p) && !this.fileFilter?.isExcluded(p))
+    );
 
-    for (const fileInfo of fileInfos) {
-      const sourceFile = this.program!.getSourceFile(fileInfo.path);
-      if (!sourceFile) {
-        continue;
+    // 変更後の内容を読み込む（読み込めないファイルは削除されたものとして扱う）
+    const { fileInfos, extractions } = await this.readFiles(Array.from(changedFiles));
+    const readFiles = new Set(fileInfos.map((f) => f.path));
+    for (const filePath of Array.from(changedFiles)) {
+      if (!readFiles.has(filePath)) {
+        changedFiles.delete(filePath);
+        removedFiles.add(filePath);
       }
+    }
+    const touchedFiles = new Set([...changedFiles, ...removedFiles]);
+    for (const filePath of touchedFiles) {
+      this.invalidateSourceFile(filePath);
+    }
 
-      fileInfo.sourceFile = sourceFile;
-      this.sourceFiles.set(fileInfo.path, sourceFile);
+    // 追加されたファイルがあれば、プロジェクトに含まれるファイルの一覧を読み直す
+    const wasAnalyzed = new Set(result.files.map((f) => f.path));
+    const addedFiles = Array.from(changedFiles).filter((p) => !wasAnalyzed.has(p));
+    if (addedFiles.length > 0) {
+      this.projects.forEach((project) => this.projectConfigLoader.reloadFileNames(project));
+    }
 
-      // ファイル内の要素を解析
-      try {
-        this.analyzeSourceFile(sourceFile, fileInfo.path, functions, classes, imports, exports);
-        analyzedCount++;
+    // 前回の解析結果から変更・削除されたファイルの要素を取り除く
+    const isUntouched = (item: { filePath: string }) => !touchedFiles.has(item.filePath);
+    result.files = result.files.filter((f) => !touchedFiles.has(f.path));
+    result.functions = result.functions.filter(isUntouched);
+    result.classes = result.classes.filter(isUntouched);
+    result.interfaces = result.interfaces.filter(isUntouched);
+    result.typeAliases = result.typeAliases.filter(isUntouched);
+    result.enums = result.enums.filter(isUntouched);
+    result.variables = result.variables.filter(isUntouched);
+    result.imports = result.imports.filter(isUntouched);
+    result.exports = result.exports.filter(isUntouched);
+    for (const filePath of removedFiles) {
+      this.fileToProgram.delete(filePath);
+      this.sourceFiles.delete(filePath);
+      this.fileContents.delete(filePath);
+    }
 
-        // 進捗ログ（50ファイルごと）
-        if (analyzedCount % 50 === 0) {
-          console.log(`[LLM-CodeMap] Analyzed ${analyzedCount}/${fileInfos.length} files...`);
+    // 変更されたファイルを含むプログラムと、追加されたファイルが属するプロジェクトのプログラムを作り直す
+    const projectGroups = this.groupFilesByProject(fileInfos, this.projects);
+    const affectedProjects = new Set(projectGroups.keys());
+    for (const [project, program] of this.projectPrograms) {
+      if (Array.from(touchedFiles).some((filePath) => program.getSourceFile(filePath))) {
+        affectedProjects.add(project);
+      }
+    }
+    for (const project of affectedProjects) {
+      const oldProgram = this.projectPrograms.get(project);
+      const rootNames = new Set(
+        (oldProgram?.getRootFileNames() || [])
+          .map((p) => path.normalize(p))
+          .filter((p) => !removedFiles.has(p))
+      );
+      for (const fileInfo of projectGroups.get(project) || []) {
+        rootNames.add(fileInfo.path);
+      }
+      const program = this.createProjectProgram(project, Array.from(rootNames), oldProgram);
+      if (oldProgram) {
+        this.resolutionCaches.delete(oldProgram);
+      }
+      for (const fileInfo of result.files) {
+        if (this.fileToProgram.get(fileInfo.path) === oldProgram && rootNames.has(fileInfo.path)) {
+          this.fileToProgram.set(fileInfo.path, program);
         }
-      } catch (error) {
-        console.warn(`[LLM-CodeMap] Failed to analyze file ${fileInfo.path}: ${error}`);
+      }
+    }
+    // ファイルの追加・削除でモジュール解決の結果が変わるため、解決キャッシュを破棄する
+    if (addedFiles.length > 0 || removedFiles.size > 0) {
+      this.resolutionCaches.clear();
+    }
+
+    // 変更されたファイルを解析
+    const partial: AnalysisResult = {
+      files: [],
+      functions: [],
+      classes: [],
+      interfaces: [],
+      typeAliases: [],
+      enums: [],
+      variables: [],
+      imports: [],
+      exports: [],
+      workspacePackages: result.workspacePackages,
+      workspaceFolders: result.workspaceFolders,
+    };
+    for (const [project, groupFiles] of projectGroups) {
+      const program = this.projectPrograms.get(project)!;
+      for (const fileInfo of groupFiles) {
+        this.analyzeProjectFile(
+          fileInfo,
+          program,
+          project,
+          partial,
+          extractions.get(fileInfo.path)
+        );
+      }
+    }
+    // プロジェクトの設定で除外されたファイルは削除されたものとして扱う
+    for (const filePath of changedFiles) {
+      if (!partial.files.some((f) => f.path === filePath)) {
+        changedFiles.delete(filePath);
+        removedFiles.add(filePath);
       }
     }
 
+    result.files.push(...partial.files);
+    result.functions.push(...partial.functions);
+    result.classes.push(...partial.classes);
+    result.interfaces.push(...partial.interfaces);
+    result.typeAliases.push(...partial.typeAliases);
+    result.enums.push(...partial.enums);
+    result.variables.push(...partial.variables);
+    result.imports.push(...partial.imports);
+    result.exports.push(...partial.exports);
+    const dependentFiles = this.resolveChangedImports(
+      result,
+      changedFiles,
+      touchedFiles,
+      addedFiles.length > 0
+    );
     console.log(
-      `[LLM-CodeMap] Analysis complete: ${functions.length} functions, ${classes.length} classes, ${imports.length} imports, ${exports.length} exports`
+      `[LLM-CodeMap] Incremental analysis: ${changedFiles.size} changed, ${removedFiles.size} removed, ${dependentFiles.length} dependent files`
     );
 
+    removedFiles.forEach((filePath) => this.cache?.delete(filePath));
+    this.cache?.scheduleSave();
+
     return {
-      files: fileInfos,
-      functions,
-      classes,
-      imports,
-      exports,
+      changedFiles: Array.from(changedFiles),
+      removedFiles: Array.from(removedFiles),
+      dependentFiles,
     };
   }
 
   /**
-   * ソースファイルを解析
+   * 変更されたファイルのインポート・再エクスポートと、変更・削除されたファイルをインポート・再エクスポートしている
+   * ファイルの解決をやり直す（変更のないファイルのものは解決済みであること）
+   * ファイルが追加された場合は、解決できていなかったインポートもやり直す
+   * @returns 解決をやり直した、変更のないファイル
    */
-  private analyzeSourceFile(
-    sourceFile: ts.SourceFile,
-    filePath: string,
-    functions: FunctionInfo[],
-    classes: ClassInfo[],
-    imports: ImportInfo[],
-    exports: ExportInfo[]
-  ): void {
-    const visit = (node: ts.Node) => {
-      try {
-        // 関数宣言
-        if (ts.isFunctionDeclaration(node) && node.name) {
-          const funcInfo = this.extractFunctionInfo(node, sourceFile, filePath);
-          if (funcInfo) {
-            functions.push(funcInfo);
-          }
-        }
-
-        // 関数式（変数代入）
-        if (ts.isVariableStatement(node)) {
-          for (const declaration of node.declarationList.declarations) {
-            if (declaration.initializer && ts.isFunctionExpression(declaration.initializer)) {
-              const funcInfo = this.extractFunctionExpressionInfo(
-                declaration,
-                sourceFile,
-                filePath
-              );
-              if (funcInfo) {
-                functions.push(funcInfo);
-              }
-            }
-          }
-        }
+  private resolveChangedImports(
+    result: AnalysisResult,
+    changedFiles: Set<string>,
+    touchedFiles: Set<string>,
+    filesAdded: boolean
+  ): string[] {
+    const isChanged = (item: { filePath: string }) => changedFiles.has(item.filePath);
+    const dependentImports = result.imports.filter(
+      (importInfo) =>
+        !isChanged(importInfo) &&
+        ((importInfo.resolvedPath && touchedFiles.has(importInfo.resolvedPath)) ||
+          importInfo.bindings.some(
+            (b) => b.declarationFilePath && touchedFiles.has(b.declarationFilePath)
+          ) ||
+          // 追加されたファイルで解決できるようになったインポート
+          (filesAdded &&
+            !importInfo.externalPackage?.isBuiltin &&
+            (!importInfo.resolvedPath || importInfo.bindings.some((b) => !b.declarationFilePath))))
+    );
+    const dependentExports = result.exports.filter(
+      (exportInfo) =>
+        !isChanged(exportInfo) &&
+        exportInfo.from &&
+        ((exportInfo.resolvedPath && touchedFiles.has(exportInfo.resolvedPath)) ||
+          (!exportInfo.resolvedPath && filesAdded))
+    );
+    for (const importInfo of dependentImports) {
+      importInfo.resolvedPath = undefined;
+      importInfo.externalPackage = undefined;
+      for (const binding of importInfo.bindings) {
+        binding.declarationFilePath = undefined;
+        binding.declarationName = undefined;
+      }
+    }
 
-        // アロー関数（変数代入）
-        if (ts.isVariableStatement(node)) {
-          for (const declaration of node.declarationList.declarations) {
-            if (declaration.initializer && ts.isArrowFunction(declaration.initializer)) {
-              const funcInfo = this.extractArrowFunctionInfo(declaration, sourceFile, filePath);
-              if (funcInfo) {
-                functions.push(funcInfo);
-              }
-            }
-          }
-        }
+    this.resolveImports([...result.imports.filter(isChanged), ...dependentImports], result.exports);
+    this.resolveReExports([...result.exports.filter(isChanged), ...dependentExports]);
 
-        // クラス宣言
-        if (ts.isClassDeclaration(node) && node.name) {
-          const classInfo = this.extractClassInfo(node, sourceFile, filePath);
-          if (classInfo) {
-            classes.push(classInfo);
-          }
-        }
+    return Array.from(
+      new Set(
+        [...dependentImports, ...dependentExports]
+          .map((info) => info.filePath)
+          .filter((filePath) => !touchedFiles.has(filePath))
+      )
+    );
+  }
 
-        // インポート
-        if (ts.isImportDeclaration(node)) {
-          const importInfo = this.extractImportInfo(node, sourceFile, filePath);
-          if (importInfo) {
-            imports.push(importInfo);
-          }
-        }
+  /**
+   * プロジェクトのプログラムを作成（前回のプログラムがあれば変更のない部分を再利用する）
+   */
+  private createProjectProgram(
+    project: ProjectConfig | undefined,
+    rootNames: string[],
+    oldProgram?: ts.Program
+  ): ts.Program {
+    const compilerOptions: ts.CompilerOptions = project
+      ? { ...project.options, noEmit: true }
+      : TypeScriptAnalyzer.defaultCompilerOptions;
+    const projectName = project ? project.configPath : '(default)';
+    console.log(
+      `[LLM-CodeMap] Creating TypeScript program for ${projectName} with ${rootNames.length} files...`
+    );
 
-        // エクスポート
-        if (ts.isExportDeclaration(node) || ts.isExportAssignment(node)) {
-          const exportInfos = this.extractExportInfo(node, sourceFile, filePath);
-          exports.push(...exportInfos);
-        }
+    try {
+      // project referencesは渡さない（参照先のソースを直接解決させ、出力d.tsに置き換えさせない）
+      const program = ts.createProgram({
+        rootNames,
+        options: compilerOptions,
+        host: this.createCompilerHost(compilerOptions),
+        oldProgram,
+      });
+      this.projectPrograms.set(project, program);
+      console.log(`[LLM-CodeMap] TypeScript program created successfully`);
+      return program;
+    } catch (error) {
+      console.error(`[LLM-CodeMap] Failed to create TypeScript program: ${error}`);
+      throw error;
+    }
+  }
 
-        // 名前付きエクスポート（export function, export classなど）
-        const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
-        if (modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) {
-          if (ts.isFunctionDeclaration(node)) {
-            const funcNode = node; // 型を明確に分離
-            const nodeName = funcNode.name;
-            if (nodeName && ts.isIdentifier(nodeName) && nodeName.text) {
-              const funcName = nodeName.text; // 安全に保存
-              const funcInfo = this.extractFunctionInfo(funcNode, sourceFile, filePath);
-              if (funcInfo) {
-                funcInfo.isExported = true;
-                const exportInfo: ExportInfo = {
-                  name: funcName,
-                  type: 'named',
-                  filePath,
-                  line: this.getNodePosition(funcNode, sourceFile, filePath).line + 1,
-                  column: this.getNodePosition(funcNode, sourceFile, filePath).character + 1,
-                };
-                exports.push(exportInfo);
-              }
-            }
-          } else if (ts.isClassDeclaration(node)) {
-            const classNode = node; // 型を明確に分離
-            const nodeName = classNode.name;
-            if (nodeName && ts.isIdentifier(nodeName) && nodeName.text) {
-              const className = nodeName.text; // 安全に保存
-              const classInfo = this.extractClassInfo(classNode, sourceFile, filePath);
-              if (classInfo) {
-                classInfo.isExported = true;
-                const exportInfo: ExportInfo = {
-                  name: className,
-                  type: 'named',
-                  filePath,
-                  line: this.getNodePosition(classNode, sourceFile, filePath).line + 1,
-                  column: this.getNodePosition(classNode, sourceFile, filePath).character + 1,
-                };
-                exports.push(exportInfo);
-              }
+  /**
+   * ファイルを読み込む
+   * ファイルが多い場合（minFilesForWorkers以上）は、拡張機能ホストを塞がないよう読み込みと要素の抽出をワーカースレッドで行う
+   * ワーカーで読み込めなかったファイルはここで読み込み、要素の抽出はプログラムの作成後に行う
+   * 読み込んだ内容はCompilerHostに渡し、プログラムの作成時にディスクから読み直させない
+   */
+  private async readFiles(
+    filePaths: string[],
+    token?: vscode.CancellationToken,
+    progress?: AnalysisProgress
+  ): Promise<{ fileInfos: FileInfo[]; extractions: Map<string, FileExtractionResult> }> {
+    const extractions = new Map<string, FileExtractionResult>();
+    if (filePaths.length >= TypeScriptAnalyzer.minFilesForWorkers) {
+      try {
+        const tasks = filePaths.map((filePath) => ({
+          filePath,
+          cachedHash: this.cache?.getHash(filePath),
+        }));
+        const results = await new ExtractionWorkerPool().run(
+          tasks,
+          (completedCount, totalCount) => {
+            progress?.report('Reading files', completedCount, totalCount);
+            // 進捗ログ（100ファイルごと）
+            if (Math.floor(completedCount / 100) > Math.floor((completedCount - 1) / 100)) {
+              console.log(`[LLM-CodeMap] Extracted ${completedCount}/${totalCount} files...`);
             }
+          },
+          token
+        );
+        for (const extraction of results) {
+          if (extraction.error) {
+            console.warn(`[LLM-CodeMap] ${extraction.error} (${extraction.filePath})`);
           }
+          extractions.set(extraction.filePath, extraction);
         }
       } catch (error) {
-        // 個別のノード解析でエラーが発生しても続行
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const stackTrace = error instanceof Error ? error.stack : '';
-        console.warn(`[LLM-CodeMap] Error analyzing node in ${filePath}: ${errorMessage}`);
-        if (stackTrace) {
-          console.warn(
-            `[LLM-CodeMap] Stack trace: ${stackTrace.split('\n').slice(0, 5).join('\n')}`
-          );
+        console.warn(`[LLM-CodeMap] Failed to start extraction workers: ${error}`);
+      }
+    }
+
+    const fileInfos: FileInfo[] = [];
+    for (const [index, filePath] of filePaths.entries()) {
+      let content = extractions.get(filePath)?.content;
+      if (content === undefined) {
+        await checkCancellation(token);
+        progress?.report('Reading files', index + 1, filePaths.length);
+        try {
+          content = await readFileContent(vscode.Uri.file(filePath));
+        } catch (error) {
+          console.warn(`[LLM-CodeMap] Failed to read file ${filePath}: ${error}`);
+          continue;
         }
       }
+      fileInfos.push({
+        path: filePath,
+        content,
+        hash: extractions.get(filePath)?.hash ?? hashContent(content),
+      });
+      this.fileContents.set(filePath, content);
+    }
+    return { fileInfos, extractions };
+  }
 
-      ts.forEachChild(node, visit);
-    };
+  /**
+   * プログラム内の1ファイルを解析して結果に追加（ソースファイルがなければfalse）
+   * extractionを指定した場合は、ワーカースレッドで抽出した結果を使う
+   */
+  private analyzeProjectFile(
+    fileInfo: FileInfo,
+    program: ts.Program,
+    project: ProjectConfig | undefined,
+    result: AnalysisResult,
+    extraction?: FileExtractionResult
+  ): boolean {
+    const sourceFile = program.getSourceFile(fileInfo.path);
+    if (!sourceFile) {
+      return false;
+    }
 
-    try {
-      visit(sourceFile);
-    } catch (error) {
-      console.warn(`[LLM-CodeMap] Error in visit function for ${filePath}: ${error}`);
+    fileInfo.sourceFile = sourceFile;
+    fileInfo.project = project?.configPath;
+    fileInfo.workspaceFolder = this.findRootPath(fileInfo.path);
+    fileInfo.workspacePackage = this.workspacePackageLoader.findPackageForFile(
+      fileInfo.path,
+      this.workspacePackages
+    )?.name;
+    this.sourceFiles.set(fileInfo.path, sourceFile);
+    this.fileToProgram.set(fileInfo.path, program);
+    result.files.push(fileInfo);
+
+    // ファイル内の要素を解析（内容が変わっていなければキャッシュした結果を使う）
+    const cachedResult = this.cache?.get(fileInfo.path, fileInfo.hash);
+    let fileResult = cachedResult || extraction?.result;
+    if (!fileResult) {
+      try {
+        fileResult = this.sourceFileExtractor.extract(sourceFile, fileInfo.path);
+      } catch (error) {
+        console.warn(`[LLM-CodeMap] Failed to analyze file ${fileInfo.path}: ${error}`);
+        return false;
+      }
+    }
+    if (!cachedResult) {
+      this.cache?.set(fileInfo.path, fileInfo.hash, fileResult);
     }
+
+    result.functions.push(...fileResult.functions);
+    result.classes.push(...fileResult.classes);
+    result.interfaces.push(...fileResult.interfaces);
+    result.typeAliases.push(...fileResult.typeAliases);
+    result.enums.push(...fileResult.enums);
+    result.variables.push(...fileResult.variables);
+    result.imports.push(...fileResult.imports);
+    result.exports.push(...fileResult.exports);
+    return true;
   }
 
   /**
-   * ノードの位置情報を安全に取得
+   * 変更されたファイルのSourceFileをキャッシュから取り除く（次のプログラム作成時に読み直させる）
    */
-  private getNodePosition(
-    node: ts.Node,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): { line: number; character: number } {
-    try {
-      // node.posが有効な場合はそれを使用、そうでない場合はgetStart()を試す
-      let startPos: number;
-      if (node.pos !== undefined && node.pos >= 0) {
-        startPos = node.pos;
-      } else {
-        try {
-          startPos = node.getStart();
-        } catch (getStartError) {
-          // getStart()がエラーを投げた場合、node.posを使用（-1の可能性がある）
-          startPos = node.pos !== undefined ? node.pos : 0;
-        }
+  private invalidateSourceFile(filePath: string): void {
+    for (const cacheKey of Array.from(this.sourceFileCache.keys())) {
+      if (path.normalize(cacheKey.slice(0, cacheKey.lastIndexOf('|'))) === filePath) {
+        this.sourceFileCache.delete(cacheKey);
       }
+    }
+  }
 
-      // startPosが有効な範囲内か確認
-      if (startPos < 0 || startPos >= sourceFile.text.length) {
-        return { line: 0, character: 0 };
-      }
+  /**
+   * ワークスペース内のtsconfig.json / jsconfig.jsonを読み込む
+   */
+  private async loadProjects(): Promise<ProjectConfig[]> {
+    const configUris = await this.findFilesInRoots('**/{tsconfig,jsconfig}.json');
+    const configPaths = configUris
+      .map((uri) => uri.fsPath)
+      .filter((configPath) => !this.fileFilter?.isIgnored(configPath));
+    console.log(`[LLM-CodeMap] Found ${configPaths.length} project config files`);
+    return this.projectConfigLoader.loadProjects(configPaths);
+  }
 
-      return sourceFile.getLineAndCharacterOfPosition(startPos);
-    } catch (error) {
-      console.warn(`[LLM-CodeMap] Failed to get position for node in ${filePath}: ${error}`);
-      return { line: 0, character: 0 };
+  /**
+   * 解析対象の各フォルダ内でファイルを検索（パターンを省略した場合はincludeの設定で検索する）
+   */
+  private async findFilesInRoots(pattern?: string): Promise<vscode.Uri[]> {
+    const results = await Promise.all(
+      this.rootPaths.flatMap((rootPath) =>
+        (pattern ? [pattern] : this.fileFilter?.getIncludePatterns(rootPath) || []).map(
+          (includePattern) => {
+            console.log(
+              `[LLM-CodeMap] Searching for files with pattern: ${includePattern} in ${rootPath}`
+            );
+            return findFiles(
+              new vscode.RelativePattern(rootPath, includePattern),
+              this.fileFilter?.getSearchExclude(rootPath)
+            );
+          }
+        )
+      )
+    );
+    // フォルダが入れ子になっている場合の重複を除く
+    const uris = new Map<string, vscode.Uri>();
+    for (const uri of results.flat()) {
+      uris.set(uri.fsPath, uri);
     }
+    return Array.from(uris.values());
   }
 
   /**
-   * 関数情報を抽出
+   * ファイルが属する解析対象のフォルダを取得（入れ子の場合は最も深いもの）
    */
-  private extractFunctionInfo(
-    node: ts.FunctionDeclaration,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): FunctionInfo | null {
-    if (!node.name || !ts.isIdentifier(node.name)) {
-      return null;
+  private findRootPath(filePath: string): string | undefined {
+    let found: string | undefined;
+    for (const rootPath of this.rootPaths) {
+      const relative = path.relative(rootPath, filePath);
+      if (!relative.startsWith('..') && !path.isAbsolute(relative)) {
+        found = !found || rootPath.length > found.length ? rootPath : found;
+      }
     }
+    return found;
+  }
 
-    const pos = this.getNodePosition(node, sourceFile, filePath);
-    const parameters = node.parameters
-      .map((p) => {
-        const paramName = p.name;
-        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
-          return paramName.text;
-        }
-        // オブジェクトパターンや配列パターンの場合は空文字列を返す
-        return '';
-      })
-      .filter((p) => p !== '');
+  /**
+   * ファイルを所属プロジェクトごとにグループ化
+   * プロジェクトのディレクトリ配下にあるがinclude/excludeで除外されたファイルは解析対象外とし、
+   * どのプロジェクトにも属さないファイルは既定のコンパイラオプションで解析する（キーはundefined）
+   */
+  private groupFilesByProject(
+    fileInfos: FileInfo[],
+    projects: ProjectConfig[]
+  ): Map<ProjectConfig | undefined, FileInfo[]> {
+    const fileIndex = this.projectConfigLoader.createFileIndex(projects);
+    const groups = new Map<ProjectConfig | undefined, FileInfo[]>();
+    let excludedByProjectCount = 0;
 
-    const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
-    const nodeName = node.name;
-    if (!nodeName || !ts.isIdentifier(nodeName) || !nodeName.text) {
-      return null;
+    for (const fileInfo of fileInfos) {
+      const project = fileIndex.get(path.normalize(fileInfo.path));
+      if (!project && this.projectConfigLoader.isInsideProjectDirectory(fileInfo.path, projects)) {
+        excludedByProjectCount++;
+        continue;
+      }
+
+      if (!groups.has(project)) {
+        groups.set(project, []);
+      }
+      groups.get(project)!.push(fileInfo);
     }
-    const name = nodeName.text; // 安全に保存
-    return {
-      name: name,
-      filePath,
-      line: pos.line + 1,
-      column: pos.character + 1,
-      isExported: modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) || false,
-      isAsync: modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
-      parameters,
-      returnType: node.type ? this.getTypeText(node.type, sourceFile) : undefined,
+
+    if (excludedByProjectCount > 0) {
+      console.log(
+        `[LLM-CodeMap] Excluded ${excludedByProjectCount} files not included by their project config`
+      );
+    }
+    return groups;
+  }
+
+  /**
+   * SourceFileをプログラム間で共有するCompilerHostを作成
+   * （複数プロジェクトで同じlibファイルや共有ソースを何度もパースしないため）
+   * 解析対象のファイルは、読み込み済み（ワーカーで読み込んだものを含む）の内容を使う
+   */
+  private createCompilerHost(options: ts.CompilerOptions): ts.CompilerHost {
+    const host = ts.createCompilerHost(options, true);
+    const getSourceFile = host.getSourceFile;
+    const readFile = host.readFile;
+
+    host.readFile = (fileName) => {
+      const content = this.fileContents.get(path.normalize(fileName));
+      if (content === undefined) {
+        return readFile.call(host, fileName);
+      }
+      // ts.sys.readFileと同じくBOMを取り除く
+      return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content;
+    };
+
+    host.getSourceFile = (
+      fileName,
+      languageVersionOrOptions,
+      onError,
+      shouldCreateNewSourceFile
+    ) => {
+      const languageVersion =
+        typeof languageVersionOrOptions === 'object'
+          ? `${languageVersionOrOptions.languageVersion}:${languageVersionOrOptions.impliedNodeFormat ?? ''}`
+          : String(languageVersionOrOptions);
+      const cacheKey = `${fileName}|${languageVersion}`;
+
+      const cached = this.sourceFileCache.get(cacheKey);
+      if (cached && !shouldCreateNewSourceFile) {
+        return cached;
+      }
+
+      const sourceFile = getSourceFile.call(
+        host,
+        fileName,
+        languageVersionOrOptions,
+        onError,
+        shouldCreateNewSourceFile
+      );
+      if (sourceFile) {
+        this.sourceFileCache.set(cacheKey, sourceFile);
+      }
+      return sourceFile;
     };
+
+    return host;
   }
 
   /**
-   * 関数式情報を抽出
+   * インポートのモジュール指定子と、インポートされた各シンボルの宣言を解決
    */
-  private extractFunctionExpressionInfo(
-    declaration: ts.VariableDeclaration,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): FunctionInfo | null {
-    if (!ts.isIdentifier(declaration.name)) {
-      return null;
+  private resolveImports(imports: ImportInfo[], exports: ExportInfo[]): void {
+    const exportsByFile = new Map<string, ExportInfo[]>();
+    for (const exportInfo of exports) {
+      exportsByFile.set(exportInfo.filePath, [
+        ...(exportsByFile.get(exportInfo.filePath) || []),
+        exportInfo,
+      ]);
     }
+    let resolvedCount = 0;
 
-    const initializer = declaration.initializer;
-    if (!initializer || !ts.isFunctionExpression(initializer)) {
-      return null;
-    }
+    for (const importInfo of imports) {
+      const program = this.fileToProgram.get(importInfo.filePath);
+      if (!program) {
+        continue;
+      }
 
-    const pos = this.getNodePosition(declaration, sourceFile, filePath);
-    const parameters = initializer.parameters
-      .map((p) => {
-        const paramName = p.name;
-        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
-          return paramName.text;
+      try {
+        importInfo.resolvedPath = this.resolveModulePath(
+          importInfo.from,
+          importInfo.filePath,
+          program.getCompilerOptions(),
+          this.getResolutionCache(program)
+        );
+        if (importInfo.resolvedPath) {
+          this.resolveImportBindings(importInfo, program, exportsByFile);
+          resolvedCount++;
+        } else {
+          importInfo.externalPackage = this.resolveExternalPackage(
+            importInfo.from,
+            importInfo.filePath,
+            program.getCompilerOptions(),
+            this.getResolutionCache(program)
+          );
         }
-        // オブジェクトパターンや配列パターンの場合は空文字列を返す
-        return '';
-      })
-      .filter((p) => p !== '');
+      } catch (error) {
+        console.warn(
+          `[LLM-CodeMap] Failed to resolve import '${importInfo.from}' in ${importInfo.filePath}: ${error}`
+        );
+      }
+    }
 
-    const initializerModifiers = ts.canHaveModifiers(initializer)
-      ? ts.getModifiers(initializer)
-      : undefined;
-    const declName = declaration.name;
-    if (!ts.isIdentifier(declName) || !declName.text) {
-      return null;
+    console.log(`[LLM-CodeMap] Resolved ${resolvedCount}/${imports.length} imports`);
+  }
+
+  /**
+   * 再エクスポート（export ... from）のモジュール指定子を解決
+   */
+  private resolveReExports(exports: ExportInfo[]): void {
+    for (const exportInfo of exports) {
+      const program = this.fileToProgram.get(exportInfo.filePath);
+      if (!exportInfo.from || !program) {
+        continue;
+      }
+
+      try {
+        exportInfo.resolvedPath = this.resolveModulePath(
+          exportInfo.from,
+          exportInfo.filePath,
+          program.getCompilerOptions(),
+          this.getResolutionCache(program)
+        );
+      } catch (error) {
+        console.warn(
+          `[LLM-CodeMap] Failed to resolve re-export '${exportInfo.from}' in ${exportInfo.filePath}: ${error}`
+        );
+      }
     }
-    const name = declName.text; // 安全に保存
-    return {
-      name: name,
-      filePath,
-      line: pos.line + 1,
-      column: pos.character + 1,
-      isExported: false,
-      isAsync: initializerModifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
-      parameters,
-      returnType: initializer.type ? this.getTypeText(initializer.type, sourceFile) : undefined,
-    };
   }
 
   /**
-   * アロー関数情報を抽出
+   * プログラムごとのモジュール解決キャッシュを取得
    */
-  private extractArrowFunctionInfo(
-    declaration: ts.VariableDeclaration,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): FunctionInfo | null {
-    if (!ts.isIdentifier(declaration.name)) {
-      return null;
+  private getResolutionCache(program: ts.Program): ts.ModuleResolutionCache {
+    let resolutionCache = this.resolutionCaches.get(program);
+    if (!resolutionCache) {
+      resolutionCache = ts.createModuleResolutionCache(
+        program.getCurrentDirectory(),
+        (fileName) => (ts.sys.useCaseSensitiveFileNames ? fileName : fileName.toLowerCase()),
+        program.getCompilerOptions()
+      );
+      this.resolutionCaches.set(program, resolutionCache);
     }
+    return resolutionCache;
+  }
 
-    const initializer = declaration.initializer;
-    if (!initializer || !ts.isArrowFunction(initializer)) {
-      return null;
+  /**
+   * モジュール指定子をファイルパスに解決（paths, baseUrl, rootDirsなどを考慮）
+   */
+  private resolveModulePath(
+    specifier: string,
+    containingFile: string,
+    compilerOptions: ts.CompilerOptions,
+    resolutionCache: ts.ModuleResolutionCache
+  ): string | undefined {
+    // モノレポのワークスペースパッケージはビルド成果物ではなくソースに解決する
+    const workspacePackagePath = this.resolveWorkspacePackagePath(specifier);
+    if (workspacePackagePath) {
+      return workspacePackagePath;
     }
 
-    const pos = this.getNodePosition(declaration, sourceFile, filePath);
-    const parameters = initializer.parameters
-      .map((p) => {
-        const paramName = p.name;
-        if (paramName && ts.isIdentifier(paramName) && paramName.text) {
-          return paramName.text;
-        }
-        // オブジェクトパターンや配列パターンの場合は空文字列を返す
-        return '';
-      })
-      .filter((p) => p !== '');
+    const resolved = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      compilerOptions,
+      ts.sys,
+      resolutionCache
+    ).resolvedModule;
+    if (resolved && !resolved.isExternalLibraryImport) {
+      return path.normalize(resolved.resolvedFileName);
+    }
 
-    const declName = declaration.name;
-    if (!ts.isIdentifier(declName) || !declName.text) {
-      return null;
+    if (!specifier.startsWith('.')) {
+      return undefined;
     }
-    const name = declName.text; // 安全に保存
-    return {
-      name: name,
-      filePath,
-      line: pos.line + 1,
-      column: pos.character + 1,
-      isExported: false,
-      isAsync: initializer.modifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
-      parameters,
-      returnType: initializer.type ? this.getTypeText(initializer.type, sourceFile) : undefined,
-    };
+
+    // コンパイラで解決できない相対パスは拡張子を補って探す
+    return this.findModuleFile(normalizePath(specifier, path.dirname(containingFile)));
   }
 
   /**
-   * クラス情報を抽出
+   * ワークスペースパッケージ名で始まるモジュール指定子を、パッケージ内のソースファイルに解決
    */
-  private extractClassInfo(
-    node: ts.ClassDeclaration,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): ClassInfo | null {
-    const nodeName = node.name;
-    if (!nodeName || !ts.isIdentifier(nodeName) || !nodeName.text) {
-      return null;
+  private resolveWorkspacePackagePath(specifier: string): string | undefined {
+    const packageName = getPackageName(specifier);
+    const workspacePackage = this.localPackages.find((p) => p.name === packageName);
+    if (!packageName || !workspacePackage) {
+      return undefined;
     }
 
-    const pos = this.getNodePosition(node, sourceFile, filePath);
-    const methods: MethodInfo[] = [];
-    const properties: PropertyInfo[] = [];
+    const subpath = specifier.slice(packageName.length + 1);
+    const packageJson = readPackageJson(workspacePackage.packageJsonPath, this.packageJsonCache);
+    const entries = subpath
+      ? [subpath, `src/${subpath}`]
+      : [packageJson?.source, 'src/index', packageJson?.types, packageJson?.main, 'index'];
 
-    // メソッドとプロパティを抽出
-    for (const member of node.members) {
-      const memberName = member.name;
-      if (
-        ts.isMethodDeclaration(member) &&
-        memberName &&
-        ts.isIdentifier(memberName) &&
-        memberName.text
-      ) {
-        const methodName = memberName.text; // 安全に保存
-        const methodPos = this.getNodePosition(member, sourceFile, filePath);
-        const parameters = member.parameters
-          .map((p) => {
-            const paramName = p.name;
-            if (paramName && ts.isIdentifier(paramName) && paramName.text) {
-              return paramName.text;
-            }
-            // オブジェクトパターンや配列パターンの場合は空文字列を返す
-            return '';
-          })
-          .filter((p) => p !== '');
-
-        const memberModifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
-        methods.push({
-          name: methodName,
-          filePath,
-          line: methodPos.line + 1,
-          column: methodPos.character + 1,
-          isPublic: !memberModifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword),
-          isStatic: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword) || false,
-          isAsync: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.AsyncKeyword) || false,
-          parameters,
-          returnType: member.type ? this.getTypeText(member.type, sourceFile) : undefined,
-        });
-      }
-
-      if (ts.isPropertyDeclaration(member)) {
-        const propMemberName = member.name;
-        if (ts.isIdentifier(propMemberName) && propMemberName.text) {
-          const propName = propMemberName.text; // 安全に保存
-          const propPos = this.getNodePosition(member, sourceFile, filePath);
-          const memberModifiers = ts.canHaveModifiers(member) ? ts.getModifiers(member) : undefined;
-          properties.push({
-            name: propName,
-            filePath,
-            line: propPos.line + 1,
-            column: propPos.character + 1,
-            type: member.type ? this.getTypeText(member.type, sourceFile) : undefined,
-            isPublic: !memberModifiers?.some((m) => m.kind === ts.SyntaxKind.PrivateKeyword),
-            isStatic: memberModifiers?.some((m) => m.kind === ts.SyntaxKind.StaticKeyword) || false,
-          });
-        }
+    for (const entry of entries) {
+      if (!entry) {
+        continue;
+      }
+      const basePath = path.join(
+        workspacePackage.directory,
+        entry.replace(/(\.d)?\.[cm]?[jt]sx?$/, '')
+      );
+      const filePath = this.findModuleFile(basePath);
+      if (filePath) {
+        return filePath;
       }
     }
+    return undefined;
+  }
 
-    const finalNodeName = node.name;
-    if (!finalNodeName || !ts.isIdentifier(finalNodeName) || !finalNodeName.text) {
-      return null;
+  /**
+   * 拡張子を補ってモジュールのファイルを探す
+   */
+  private findModuleFile(basePath: string): string | undefined {
+    for (const ext of ['', '.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.js']) {
+      const testPath = basePath + ext;
+      if (fileExists(testPath)) {
+        return testPath;
+      }
     }
-    const name = finalNodeName.text; // 安全に保存
-    return {
-      name: name,
-      filePath,
-      line: pos.line + 1,
-      column: pos.character + 1,
-      isExported: (() => {
-        const modifiers = ts.canHaveModifiers(node) ? ts.getModifiers(node) : undefined;
-        return modifiers?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword) || false;
-      })(),
-      extends: (() => {
-        const extendsClause = node.heritageClauses?.find(
-          (h) => h.token === ts.SyntaxKind.ExtendsKeyword
-        );
-        if (extendsClause && extendsClause.types.length > 0) {
-          const expression = extendsClause.types[0].expression;
-          if (expression && ts.isIdentifier(expression)) {
-            const exprText = expression.text;
-            if (exprText) {
-              return exprText; // ここはreturnなので問題ない
-            }
-          }
-        }
-        return undefined;
-      })(),
-      implements:
-        node.heritageClauses
-          ?.find((h) => h.token === ts.SyntaxKind.ImplementsKeyword)
-          ?.types.map((t) => {
-            const expr = t.expression;
-            if (expr && ts.isIdentifier(expr) && expr.text) {
-              return expr.text;
-            }
-            return '';
-          })
-          .filter((t) => t !== '') || [],
-      methods,
-      properties,
-    };
+    return undefined;
   }
 
   /**
-   * インポート情報を抽出
-   */
-  private extractImportInfo(
-    node: ts.ImportDeclaration,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): ImportInfo | null {
-    const moduleSpec = node.moduleSpecifier;
-    if (!moduleSpec || !ts.isStringLiteral(moduleSpec) || !moduleSpec.text) {
-      return null;
-    }
-
-    const from = moduleSpec.text;
-    const imports: string[] = [];
-    let isDefault = false;
-    let isNamespace = false;
-
-    if (node.importClause) {
-      // デフォルトインポート
-      const importClauseName = node.importClause.name;
-      if (importClauseName && ts.isIdentifier(importClauseName) && importClauseName.text) {
-        const importName = importClauseName.text; // 安全に保存
-        imports.push(importName);
-        isDefault = true;
-      }
-
-      // 名前付きインポート
-      if (node.importClause.namedBindings) {
-        if (ts.isNamespaceImport(node.importClause.namedBindings)) {
-          const namespaceNameNode = node.importClause.namedBindings.name;
-          if (namespaceNameNode && ts.isIdentifier(namespaceNameNode) && namespaceNameNode.text) {
-            const namespaceName = namespaceNameNode.text; // 安全に保存
-            imports.push(namespaceName);
-            isNamespace = true;
-          }
-        } else if (ts.isNamedImports(node.importClause.namedBindings)) {
-          for (const element of node.importClause.namedBindings.elements) {
-            const elementNameNode = element.name;
-            if (elementNameNode && ts.isIdentifier(elementNameNode) && elementNameNode.text) {
-              const elementName = elementNameNode.text; // 安全に保存
-              imports.push(elementName);
-            }
-          }
-        }
-      }
+   * ワークスペース外のパッケージ（node_modules）や組み込みモジュールのインポートを判定
+   * package.jsonに宣言された依存関係か、node_modulesに解決されたものだけを対象にする
+   */
+  private resolveExternalPackage(
+    specifier: string,
+    containingFile: string,
+    compilerOptions: ts.CompilerOptions,
+    resolutionCache: ts.ModuleResolutionCache
+  ): ExternalPackageInfo | undefined {
+    const packageName = getPackageName(specifier);
+    if (!packageName) {
+      return undefined;
     }
 
-    // 相対パスを絶対パスに変換
-    let resolvedPath = from;
-    if (from.startsWith('.') || from.startsWith('..')) {
-      const baseDir = path.dirname(filePath);
-      resolvedPath = normalizePath(from, baseDir);
-      // .ts, .js拡張子を追加してファイルが存在するかチェック
-      if (!fs.existsSync(resolvedPath)) {
-        for (const ext of ['.ts', '.tsx', '.js', '.jsx', '/index.ts', '/index.js']) {
-          const testPath = resolvedPath + ext;
-          if (fs.existsSync(testPath)) {
-            resolvedPath = testPath;
-            break;
-          }
-        }
-      }
+    if (isBuiltinModule(specifier)) {
+      return {
+        name: `node:${packageName.replace(/^node:/, '')}`,
+        isBuiltin: true,
+      };
+    }
+
+    const resolved = ts.resolveModuleName(
+      specifier,
+      containingFile,
+      compilerOptions,
+      ts.sys,
+      resolutionCache
+    ).resolvedModule;
+    const dependency = findDeclaredDependency(packageName, containingFile, this.packageJsonCache);
+    if (!dependency && !resolved?.isExternalLibraryImport) {
+      // paths の別名などで解決できなかったものはパッケージとして扱わない
+      return undefined;
     }
 
     return {
-      from: resolvedPath,
-      imports,
-      isDefault,
-      isNamespace,
+      name: packageName,
+      version: dependency?.version,
+      installedVersion:
+        resolved?.packageId?.version ||
+        findInstalledVersion(packageName, containingFile, this.packageJsonCache),
+      dependencyType: dependency?.dependencyType,
+      packageJsonPath: dependency?.packageJsonPath,
+      isBuiltin: false,
     };
   }
 
   /**
-   * エクスポート情報を抽出
-   */
-  private extractExportInfo(
-    node: ts.Node,
-    sourceFile: ts.SourceFile,
-    filePath: string
-  ): ExportInfo[] {
-    const exports: ExportInfo[] = [];
-
-    if (ts.isExportDeclaration(node) && node.exportClause) {
-      if (ts.isNamedExports(node.exportClause)) {
-        for (const element of node.exportClause.elements) {
-          const elementNameNode = element.name;
-          if (elementNameNode && ts.isIdentifier(elementNameNode) && elementNameNode.text) {
-            const exportName = elementNameNode.text; // 安全に保存
-            exports.push({
-              name: exportName,
-              type: 'named',
-              filePath,
-              line: this.getNodePosition(node, sourceFile, filePath).line + 1,
-              column: this.getNodePosition(node, sourceFile, filePath).character + 1,
-            });
-          }
-        }
+   * インポートされた各名前をTypeCheckerで宣言元のファイルとシンボルまで辿る
+   */
+  private resolveImportBindings(
+    importInfo: ImportInfo,
+    program: ts.Program,
+    exportsByFile: Map<string, ExportInfo[]>
+  ): void {
+    // インポート先が別のプロジェクト（tsconfig）に属する場合は、そのプログラムで解決する
+    const targetProgram = this.fileToProgram.get(importInfo.resolvedPath!) || program;
+    const targetSourceFile = targetProgram.getSourceFile(importInfo.resolvedPath!);
+    if (!targetSourceFile) {
+      return;
+    }
+
+    const checker = targetProgram.getTypeChecker();
+    const moduleSymbol = checker.getSymbolAtLocation(targetSourceFile);
+    if (!moduleSymbol) {
+      // CommonJSのファイルはモジュールシンボルを持たないため、抽出したエクスポート情報から解決する
+      this.resolveCommonJsBindings(importInfo, exportsByFile.get(importInfo.resolvedPath!) || []);
+      return;
+    }
+
+    const moduleExports = checker.getExportsOfModule(moduleSymbol);
+    // export = で公開しているモジュールは、その値をモジュール全体・デフォルトとしてインポートする
+    const exportEqualsSymbol = moduleSymbol.exports?.get(ts.InternalSymbolName.ExportEquals);
+    for (const binding of importInfo.bindings) {
+      let symbol: ts.Symbol | undefined;
+      if (
+        exportEqualsSymbol &&
+        (binding.importedName === '*' || binding.importedName === 'default')
+      ) {
+        symbol = exportEqualsSymbol;
+      } else if (binding.importedName === '*') {
+        binding.declarationFilePath = importInfo.resolvedPath;
+        continue;
+      } else {
+        symbol = moduleExports.find((s) => s.name === binding.importedName);
+      }
+      if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+        symbol = checker.getAliasedSymbol(symbol);
+      }
+
+      const declaration = symbol?.declarations?.[0];
+      if (!symbol || !declaration) {
+        continue;
       }
+
+      const declarationName = ts.getNameOfDeclaration(declaration);
+      binding.declarationFilePath = path.normalize(declaration.getSourceFile().fileName);
+      binding.declarationName =
+        declarationName && ts.isIdentifier(declarationName) ? declarationName.text : symbol.name;
     }
+  }
 
-    if (ts.isExportAssignment(node)) {
-      exports.push({
-        name: 'default',
-        type: 'default',
-        filePath,
-        line: this.getNodePosition(node, sourceFile, filePath).line + 1,
-        column: this.getNodePosition(node, sourceFile, filePath).character + 1,
-      });
+  /**
+   * CommonJSのエクスポート情報（module.exports、exports.name）からインポートされた名前の宣言を解決
+   */
+  private resolveCommonJsBindings(importInfo: ImportInfo, moduleExports: ExportInfo[]): void {
+    const exportEquals = moduleExports.find((e) => e.name === 'export=');
+    for (const binding of importInfo.bindings) {
+      binding.declarationFilePath = importInfo.resolvedPath;
+      if (binding.importedName === '*' || binding.importedName === 'default') {
+        binding.declarationName = exportEquals?.localName;
+        continue;
+      }
+
+      const exportInfo = moduleExports.find(
+        (e) => e.type === 'named' && e.name === binding.importedName
+      );
+      binding.declarationName = exportInfo ? exportInfo.localName || exportInfo.name : undefined;
     }
+  }
 
-    return exports;
+  /**
+   * 解析対象のファイルを決めるフィルター（解析前はundefined）
+   */
+  getFileFilter(): FileFilter | undefined {
+    return this.fileFilter;
   }
 
   /**
-   * 型のテキスト表現を取得
+   * ファイルが解析対象から除外される理由を取得（除外されない場合はundefined）
+   * 設定は読み直し、tsconfig/jsconfigによる除外は直前の解析で読み込んだプロジェクト設定で判定する
    */
-  private getTypeText(typeNode: ts.TypeNode, sourceFile: ts.SourceFile): string {
-    const printer = ts.createPrinter();
-    return printer.printNode(ts.EmitHint.Unspecified, typeNode, sourceFile);
+  async explainExclusion(
+    filePath: string,
+    workspacePaths: string[]
+  ): Promise<ExclusionReason | undefined> {
+    const normalizedPath = path.normalize(filePath);
+    const filter = await FileFilter.load(workspacePaths.map((p) => path.normalize(p)));
+    const reason = filter.explain(normalizedPath);
+    if (reason) {
+      return reason;
+    }
+    if (!isTypeScriptOrJavaScriptFile(normalizedPath)) {
+      return {
+        source: 'include',
+        description: 'Only TypeScript and JavaScript files (.ts, .tsx, .js, .jsx) are analyzed.',
+      };
+    }
+    if (
+      !this.projectConfigLoader.createFileIndex(this.projects).has(normalizedPath) &&
+      this.projectConfigLoader.isInsideProjectDirectory(normalizedPath, this.projects)
+    ) {
+      return {
+        source: 'project',
+        description:
+          'The file is inside a project folder but is not included by the include/files/exclude of its tsconfig.json or jsconfig.json.',
+      };
+    }
+    return undefined;
   }
 
   /**
@@ -710,4 +1212,11 @@ export class TypeScriptAnalyzer {
   getSourceFile(filePath: string): ts.SourceFile | undefined {
     return this.sourceFiles.get(filePath);
   }
+
+  /**
+   * ファイルを含むTypeScript Programを取得
+   */
+  getProgram(filePath: string): ts.Program | undefined {
+    return this.fileToProgram.get(filePath);
+  }
 }
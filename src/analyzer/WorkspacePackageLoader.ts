@@ -0,0 +1,217 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { WorkspacePackageInfo } from './types';
+import { PackageJson, readPackageJson } from '../utils/packageUtils';
+import { directoryExists, fileExists } from '../utils/fileUtils';
+
+/**
+ * モノレポのワークスペースパッケージ（npm/yarn/pnpm workspaces、lerna）の検出
+ */
+export class WorkspacePackageLoader {
+  /**
+   * ルートの package.json の workspaces、pnpm-workspace.yaml、lerna.json からパッケージを検出
+   */
+  loadPackages(rootPath: string): WorkspacePackageInfo[] {
+    const patterns = this.readWorkspacePatterns(rootPath);
+    if (patterns.length === 0) {
+      return [];
+    }
+
+    const includes = patterns.filter((p) => !p.startsWith('!'));
+    const excludes = patterns.filter((p) => p.startsWith('!')).map((p) => p.slice(1));
+    const excludedDirectories = new Set(
+      excludes.flatMap((pattern) => this.expandPattern(rootPath, pattern))
+    );
+
+    const packages = new Map<string, WorkspacePackageInfo>();
+    for (const pattern of includes) {
+      for (const directory of this.expandPattern(rootPath, pattern)) {
+        if (excludedDirectories.has(directory)) {
+          continue;
+        }
+
+        const packageJsonPath = path.join(directory, 'package.json');
+        const packageJson = readPackageJson(packageJsonPath);
+        if (!packageJson?.name || packages.has(packageJson.name)) {
+          continue;
+        }
+
+        packages.set(packageJson.name, {
+          name: packageJson.name,
+          version: packageJson.version,
+          directory,
+          packageJsonPath,
+          dependencies: this.collectDependencies(packageJson),
+        });
+      }
+    }
+
+    console.log(`[LLM-CodeMap] Detected ${packages.size} workspace packages`);
+    return Array.from(packages.values());
+  }
+
+  /**
+   * フォルダのルートのpackage.jsonをパッケージとして読み込む（フォルダ間のインポートの解決に使用）
+   */
+  loadRootPackage(rootPath: string): WorkspacePackageInfo | undefined {
+    const packageJsonPath = path.join(rootPath, 'package.json');
+    const packageJson = readPackageJson(packageJsonPath);
+    if (!packageJson?.name) {
+      return undefined;
+    }
+    return {
+      name: packageJson.name,
+      version: packageJson.version,
+      directory: rootPath,
+      packageJsonPath,
+      dependencies: this.collectDependencies(packageJson),
+    };
+  }
+
+  /**
+   * ファイルが所属するワークスペースパッケージを取得（ディレクトリが最も深いものを優先）
+   */
+  findPackageForFile(
+    filePath: string,
+    packages: WorkspacePackageInfo[]
+  ): WorkspacePackageInfo | undefined {
+    let found: WorkspacePackageInfo | undefined;
+    for (const pkg of packages) {
+      const relative = path.relative(pkg.directory, filePath);
+      if (relative.startsWith('..') || path.isAbsolute(relative)) {
+        continue;
+      }
+      if (!found || pkg.directory.length > found.directory.length) {
+        found = pkg;
+      }
+    }
+    return found;
+  }
+
+  /**
+   * ワークスペースの設定ファイルからパッケージのglobパターンを読み込む
+   */
+  private readWorkspacePatterns(rootPath: string): string[] {
+    const workspaces = readPackageJson(path.join(rootPath, 'package.json'))?.workspaces;
+    if (Array.isArray(workspaces)) {
+      return workspaces;
+    }
+    if (workspaces?.packages) {
+      return workspaces.packages;
+    }
+
+    const pnpmWorkspacePath = path.join(rootPath, 'pnpm-workspace.yaml');
+    if (fileExists(pnpmWorkspacePath)) {
+      return this.parsePnpmWorkspace(fs.readFileSync(pnpmWorkspacePath, 'utf-8'));
+    }
+
+    const lernaJsonPath = path.join(rootPath, 'lerna.json');
+    if (fileExists(lernaJsonPath)) {
+      try {
+        const lernaJson = JSON.parse(fs.readFileSync(lernaJsonPath, 'utf-8'));
+        return Array.isArray(lernaJson.packages) ? lernaJson.packages : ['packages/*'];
+      } catch (error) {
+        console.warn(`[LLM-CodeMap] Failed to parse ${lernaJsonPath}: ${error}`);
+      }
+    }
+
+    return [];
+  }
+
+  /**
+   * pnpm-workspace.yaml の packages リストを読み込む（YAMLのうち packages のリストのみ対応）
+   */
+  private parsePnpmWorkspace(content: string): string[] {
+    const patterns: string[] = [];
+    let inPackages = false;
+    for (const line of content.split(/\r?\n/)) {
+      const trimmed = line.replace(/#.*$/, '').trim();
+      if (!trimmed) {
+        continue;
+      }
+      if (/^\S/.test(line)) {
+        inPackages = trimmed === 'packages:';
+        continue;
+      }
+      if (inPackages && trimmed.startsWith('-')) {
+        patterns.push(
+          trimmed
+            .slice(1)
+            .trim()
+            .replace(/^['"]|['"]$/g, '')
+        );
+      }
+    }
+    return patterns;
+  }
+
+  /**
+   * ディレクトリのglobパターン（'packages/*'、'apps/**' など）を展開
+   */
+  private expandPattern(rootPath: string, pattern: string): string[] {
+    const segments = pattern
+      .replace(/\/+$/, '')
+      .split('/')
+      .filter((s) => s && s !== '.');
+    let directories = [rootPath];
+
+    for (const segment of segments) {
+      const next: string[] = [];
+      for (const directory of directories) {
+        if (segment === '**') {
+          next.push(directory, ...this.listDirectoriesRecursively(directory));
+        } else if (segment.includes('*')) {
+          const matcher = new RegExp(
+            '^' + segment.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*') + '$'
+          );
+          next.push(
+            ...this.listDirectories(directory)
+              .filter((name) => matcher.test(name))
+              .map((name) => path.join(directory, name))
+          );
+        } else if (directoryExists(path.join(directory, segment))) {
+          next.push(path.join(directory, segment));
+        }
+      }
+      directories = next;
+    }
+
+    return directories.map((d) => path.normalize(d));
+  }
+
+  /**
+   * 直下のディレクトリ名を取得（node_modulesと隠しディレクトリは除く）
+   */
+  private listDirectories(directory: string): string[] {
+    try {
+      return fs
+        .readdirSync(directory, { withFileTypes: true })
+        .filter((e) => e.isDirectory() && e.name !== 'node_modules' && !e.name.startsWith('.'))
+        .map((e) => e.name);
+    } catch {
+      return [];
+    }
+  }
+
+  /**
+   * 配下のディレクトリを再帰的に取得
+   */
+  private listDirectoriesRecursively(directory: string): string[] {
+    return this.listDirectories(directory).flatMap((name) => {
+      const child = path.join(directory, name);
+      return [child, ...this.listDirectoriesRecursively(child)];
+    });
+  }
+
+  /**
+   * 宣言されている依存関係をまとめて取得
+   */
+  private collectDependencies(packageJson: PackageJson): Record<string, string> {
+    return {
+      ...packageJson.optionalDependencies,
+      ...packageJson.peerDependencies,
+      ...packageJson.devDependencies,
+      ...packageJson.dependencies,
+    };
+  }
+}
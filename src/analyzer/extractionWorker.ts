@@ -0,0 +1,42 @@
+import { parentPort } from 'worker_threads';
+import * as fs from 'fs';
+import * as ts from 'typescript';
+import { SourceFileExtractor } from './SourceFileExtractor';
+import { FileExtractionTask, FileExtractionResult } from './types';
+import { hashContent } from '../utils/hashUtils';
+
+/**
+ * ファイルの読み込みと構文木からの要素の抽出を行うワーカースレッド
+ * （ExtractionWorkerPoolから起動され、タスクの配列を受け取るたびに結果の配列を返す）
+ */
+
+const extractor = new SourceFileExtractor();
+
+/**
+ * 1ファイルを読み込んで要素を抽出（キャッシュと内容が一致する場合は抽出しない）
+ */
+function extractFile(task: FileExtractionTask): FileExtractionResult {
+  const { filePath } = task;
+  let content: string;
+  try {
+    content = fs.readFileSync(filePath, 'utf-8');
+  } catch (error) {
+    return { filePath, error: `Failed to read file: ${error}` };
+  }
+
+  const hash = hashContent(content);
+  if (task.cachedHash === hash) {
+    return { filePath, content, hash };
+  }
+
+  try {
+    const sourceFile = ts.createSourceFile(filePath, content, ts.ScriptTarget.Latest, true);
+    return { filePath, content, hash, result: extractor.extract(sourceFile, filePath) };
+  } catch (error) {
+    return { filePath, content, hash, error: `Failed to analyze file: ${error}` };
+  }
+}
+
+parentPort?.on('message', (tasks: FileExtractionTask[]) => {
+  parentPort?.postMessage(tasks.map(extractFile));
+});
@@ -13,6 +13,8 @@ export enum NodeType {
   Interface = 'interface',
   Type = 'type',
   Variable = 'variable',
+  Package = 'package',
+  Folder = 'folder',
 }
 
 /**
@@ -25,6 +27,9 @@ export enum EdgeType {
   Extends = 'extends',
   Implements = 'implements',
   Reference = 'reference',
+  Reads = 'reads',
+  Writes = 'writes',
+  Instantiates = 'instantiates',
 }
 
 /**
@@ -63,6 +68,67 @@ export interface GraphEdge {
 export interface GraphData {
   nodes: GraphNode[];
   edges: GraphEdge[];
+  truncation?: GraphTruncation; // ノード数・エッジ数の上限を超えたため縮約・間引きした場合
+  paths?: GraphPath[]; // 経路の検索結果を表示する場合、見つかった経路（短い順）
+  impact?: ImpactSummary; // 変更の影響範囲を表示する場合、影響を受けるノード・ファイルの一覧
+}
+
+/**
+ * 2つのノードの間の経路
+ */
+export interface GraphPath {
+  nodeIds: string[]; // 始点から終点までのノードID
+  edgeIds: string[]; // 隣り合うノードの間のエッジのID（同じノードの間に複数の種類のエッジがある場合はすべて）
+}
+
+/**
+ * 変更の影響範囲（変更したノードに推移的に依存するノード・ファイル）
+ */
+export interface ImpactSummary {
+  startNodeIds: string[]; // 変更したノード（ファイルの場合はその中のシンボルも含む）
+  levels: ImpactLevel[]; // 距離ごとの影響を受けるノード・ファイル（距離の昇順）
+  testFiles: string[]; // 影響を受けるファイルのうちテストファイルのパス
+}
+
+/**
+ * 変更したノードから同じ距離（依存関係を逆向きに辿った数）にある、影響を受けるノード・ファイル
+ */
+export interface ImpactLevel {
+  distance: number; // 0は変更したノード自身
+  nodeIds: string[];
+  filePaths: string[]; // この距離で初めて影響を受けるファイルのパス
+}
+
+/**
+ * グラフの差分（差分解析でWebviewへ送る）
+ */
+export interface GraphDelta {
+  upsertedNodes: GraphNode[]; // 追加・変更されたノード
+  removedNodeIds: string[];
+  upsertedEdges: GraphEdge[]; // 追加・変更されたエッジ
+  removedEdgeIds: string[];
+  truncation?: GraphTruncation; // 差分を適用した後のグラフの縮約・間引きの内容
+}
+
+/**
+ * 上限を超えたグラフをまとめた粒度（file: シンボルをファイルに、folder: ファイルをフォルダ・パッケージに）
+ */
+export type GraphDetailLevel = 'file' | 'folder';
+
+/**
+ * ノード数・エッジ数の上限を超えたグラフを縮約・間引いた内容（Webviewとツールの結果で説明する）
+ */
+export interface GraphTruncation {
+  maxNodes: number;
+  maxEdges: number;
+  originalNodeCount: number;
+  originalEdgeCount: number;
+  level?: GraphDetailLevel; // 縮約しなかった場合（間引きのみ）はなし
+  folderDepth?: number; // folderの場合、ワークスペースフォルダからのディレクトリの深さ
+  groupCount: number; // 縮約で作成したフォルダのノードの数
+  collapsedNodeCount: number; // ファイル・フォルダ・パッケージにまとめたノードの数
+  prunedNodeCount: number; // 次数の低いノードとして間引いた数
+  hiddenNodeTypes: Record<string, number>; // 表示しないノードの種類ごとの数
 }
 
 /**
@@ -71,7 +137,11 @@ export interface GraphData {
 export interface FileInfo {
   path: string;
   content: string;
+  hash: string; // 内容のハッシュ
   sourceFile?: any; // TypeScript SourceFile
+  project?: string; // 所属するtsconfig.json / jsconfig.jsonのパス
+  workspacePackage?: string; // 所属するモノレポのワークスペースパッケージ名
+  workspaceFolder?: string; // 所属するワークスペースフォルダのパス
 }
 
 /**
@@ -103,6 +173,79 @@ export interface ClassInfo {
   properties: PropertyInfo[];
 }
 
+/**
+ * インターフェース情報
+ */
+export interface InterfaceInfo {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  isExported: boolean;
+  extends: string[];
+  members: InterfaceMemberInfo[];
+}
+
+/**
+ * インターフェースのメンバー情報
+ */
+export interface InterfaceMemberInfo {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  kind: 'property' | 'method';
+  type?: string;
+  isOptional: boolean;
+}
+
+/**
+ * 型エイリアス情報
+ */
+export interface TypeAliasInfo {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  isExported: boolean;
+  type: string;
+  typeParameters: string[];
+}
+
+/**
+ * 列挙型情報
+ */
+export interface EnumInfo {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  isExported: boolean;
+  isConst: boolean;
+  members: EnumMemberInfo[];
+}
+
+/**
+ * 列挙型のメンバー情報
+ */
+export interface EnumMemberInfo {
+  name: string;
+  value?: string;
+}
+
+/**
+ * モジュールレベルの変数・定数情報
+ */
+export interface VariableInfo {
+  name: string;
+  filePath: string;
+  line: number;
+  column: number;
+  isExported: boolean;
+  kind: 'const' | 'let' | 'var';
+  type?: string;
+}
+
 /**
  * メソッド情報
  */
@@ -135,19 +278,181 @@ export interface PropertyInfo {
  * インポート情報
  */
 export interface ImportInfo {
-  from: string; // インポート元のファイルパス
+  filePath: string; // インポートしているファイルのパス
+  from: string; // モジュール指定子（import文に書かれたまま）
+  kind: ImportKind;
+  resolvedPath?: string; // モジュール解決後のファイルパス
+  externalPackage?: ExternalPackageInfo; // 外部パッケージ・組み込みモジュールのインポートの場合
   imports: string[]; // インポートされた名前
+  bindings: ImportBinding[];
   isDefault: boolean;
   isNamespace: boolean;
 }
 
+/**
+ * インポートされた外部パッケージ（node_modules）または組み込みモジュール
+ */
+export interface ExternalPackageInfo {
+  name: string; // パッケージ名（組み込みモジュールは'node:fs'の形式）
+  version?: string; // package.jsonで宣言されているバージョン
+  installedVersion?: string; // node_modulesにインストールされているバージョン
+  dependencyType?: string; // dependencies、devDependenciesなど
+  packageJsonPath?: string; // 依存関係を宣言しているpackage.json
+  isBuiltin: boolean;
+}
+
+/**
+ * インポートの種類
+ * static: import文、dynamic: import()、require: require() / import x = require()、sideEffect: import './module'
+ */
+export type ImportKind = 'static' | 'dynamic' | 'require' | 'sideEffect';
+
+/**
+ * インポートされた個々の名前と、その宣言元
+ */
+export interface ImportBinding {
+  name: string; // ローカルでの名前
+  importedName: string; // インポート元での名前（'default'、名前空間インポートは'*'）
+  declarationFilePath?: string; // 宣言されているファイルのパス
+  declarationName?: string; // 宣言されている名前
+}
+
 /**
  * エクスポート情報
  */
 export interface ExportInfo {
-  name: string;
-  type: 'default' | 'named' | 'namespace';
+  name: string; // エクスポート名（export * from は'*'）
+  type: 'default' | 'named' | 'namespace' | 'all';
   filePath: string;
   line: number;
   column: number;
+  from?: string; // 再エクスポート元のモジュール指定子（export ... from）
+  resolvedPath?: string; // 再エクスポート元の解決済みファイルパス
+  propertyName?: string; // 再エクスポート元での名前（export { a as b } from の a）
+  localName?: string; // CommonJSでエクスポートされているローカルの名前（module.exports = { b: a } の a）
+}
+
+/**
+ * モノレポのワークスペースパッケージ
+ */
+export interface WorkspacePackageInfo {
+  name: string;
+  version?: string;
+  directory: string;
+  packageJsonPath: string;
+  dependencies: Record<string, string>; // 宣言されている依存関係（パッケージ名 -> バージョン）
+  workspaceFolder?: string; // 所属するワークスペースフォルダのパス
+}
+
+/**
+ * 差分解析で更新されたファイル
+ */
+export interface FileChangeSet {
+  changedFiles: string[]; // 再解析したファイル（追加されたファイルを含む）
+  removedFiles: string[]; // 解析対象から外れたファイル
+  dependentFiles: string[]; // 変更されたファイルをインポートしていて、インポートを解決し直したファイル
+}
+
+/**
+ * 前回の解析の状態（グラフとともに保存し、次回の起動時に内容の変わっていないファイルの解析を省くために使う）
+ */
+export interface AnalysisBaseline {
+  configurationHash: string; // プロジェクト設定・ワークスペースパッケージのハッシュ（変わっていたら使えない）
+  files: Record<string, { hash: string; project?: string; workspacePackage?: string }>; // ファイルパス -> 内容のハッシュと所属
+  imports: ImportInfo[]; // 解決済みのインポート
+  exports: ExportInfo[]; // 解決済みのエクスポート
+  options: GraphExtractionOptions; // グラフを作成したときのオプション
+  graph: GraphData; // ノード数・エッジ数の上限を適用する前のグラフ
+}
+
+/**
+ * 解析したワークスペースフォルダ（マルチルートワークスペース）
+ */
+export interface WorkspaceFolderInfo {
+  name: string;
+  path: string;
+}
+
+/**
+ * フォーカスしたノードから辿る向き
+ * both: 向きを区別しない、dependents: フォーカスしたノードに依存しているノード（逆向きの推移閉包）、
+ * dependencies: フォーカスしたノードが依存しているノード（順向きの推移閉包）、
+ * callers・callees: 関数・メソッドの呼び出し元・呼び出し先（callエッジのみ）
+ */
+export type FocusDirection = 'both' | 'dependents' | 'dependencies' | 'callers' | 'callees';
+
+/**
+ * グラフ抽出のオプション
+ */
+export interface GraphExtractionOptions {
+  seeThroughBarrels?: boolean; // バレルファイル（index.tsなど）を飛ばして実装元へのエッジを作成する
+  maxNodes?: number; // 超えた場合はファイル・フォルダ単位に縮約し、次数の低いノードを間引く（0は無制限）
+  maxEdges?: number; // 同上（0は無制限）
+  depth?: number; // フォーカスしたノードから辿る深さ（inboundDepth・outboundDepthの既定値）
+  inboundDepth?: number; // フォーカスしたノードに依存しているノードを辿る深さ
+  outboundDepth?: number; // フォーカスしたノードが依存しているノードを辿る深さ
+  edgeTypes?: EdgeType[]; // フォーカスしたノードから辿るエッジの種類（未指定の場合はすべて）
+  direction?: FocusDirection; // フォーカスしたノードから辿る向き（未指定の場合はboth）
+}
+
+/**
+ * フォーカスしたノードからの実際の辿り方（向きの指定を深さとエッジの種類に反映したもの）
+ */
+export interface FocusTraversal {
+  inboundDepth?: number; // 依存しているノードを辿る深さ（undefinedは無制限）
+  outboundDepth?: number; // 依存されているノードを辿る深さ（undefinedは無制限）
+  edgeTypes?: EdgeType[]; // 辿るエッジの種類（undefinedはすべて）
+}
+
+/**
+ * ファイルから抽出した要素（ファイル単位でキャッシュする）
+ */
+export interface FileAnalysisResult {
+  functions: FunctionInfo[];
+  classes: ClassInfo[];
+  interfaces: InterfaceInfo[];
+  typeAliases: TypeAliasInfo[];
+  enums: EnumInfo[];
+  variables: VariableInfo[];
+  imports: ImportInfo[];
+  exports: ExportInfo[];
+}
+
+/**
+ * ファイルが解析対象から除外された理由
+ */
+export interface ExclusionReason {
+  source: 'workspace' | 'include' | 'exclude' | 'ignoreFile' | 'project';
+  description: string; // ユーザーに表示する説明
+  pattern?: string; // 除外した（または一致しなかった）パターン
+  ignoreFilePath?: string; // sourceがignoreFileの場合の除外ファイル（.gitignore、.codemapignore）
+  line?: number; // 除外ファイル内の行番号（1始まり）
+}
+
+/**
+ * ワーカースレッドに渡すファイルの読み込み・抽出タスク
+ */
+export interface FileExtractionTask {
+  filePath: string;
+  cachedHash?: string; // キャッシュした抽出結果の内容のハッシュ（一致すれば抽出を省く）
+}
+
+/**
+ * ワーカースレッドでのファイルの読み込み・抽出結果
+ */
+export interface FileExtractionResult {
+  filePath: string;
+  content?: string; // 読み込めなかった場合はなし
+  hash?: string; // 内容のハッシュ
+  result?: FileAnalysisResult; // キャッシュと一致した場合、抽出に失敗した場合はなし
+  error?: string;
+}
+
+/**
+ * ワークスペースの解析結果
+ */
+export interface AnalysisResult extends FileAnalysisResult {
+  files: FileInfo[];
+  workspacePackages: WorkspacePackageInfo[];
+  workspaceFolders: WorkspaceFolderInfo[];
 }
@@ -0,0 +1,135 @@
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { performance } from 'perf_hooks';
+import * as vscode from 'vscode';
+import { TypeScriptAnalyzer } from '../analyzer/TypeScriptAnalyzer';
+import { DependencyExtractor } from '../analyzer/DependencyExtractor';
+import { generateSyntheticWorkspace } from './syntheticWorkspace';
+
+/**
+ * 合成ワークスペースでの解析・グラフ作成の計測（拡張機能ホストで実行する。runBenchmark.tsを参照）
+ * ファイル数を変えて計測し、1ファイルあたりの時間がほぼ一定（ファイル数にほぼ比例）であることを確認する
+ */
+
+/** 計測するファイル数（環境変数CODEMAP_BENCHMARK_SIZESでカンマ区切りで指定できる） */
+const defaultSizes = [1250, 2500, 5000, 10000];
+
+interface BenchmarkResult {
+  fileCount: number;
+  nodeCount: number;
+  edgeCount: number;
+  analyzeMs: number;
+  analyzeBlockedMs: number; // 解析中にイベントループ（拡張機能ホスト）が塞がれていた時間の合計
+  analyzeMaxBlockMs: number; // 解析中に最も長くイベントループが塞がれていた時間
+  extractMs: number;
+  focusMs: number;
+}
+
+/**
+ * 拡張機能ホストから呼ばれるエントリポイント（--extensionTestsPath）
+ */
+export async function run(): Promise<void> {
+  const sizes = (process.env.CODEMAP_BENCHMARK_SIZES?.split(',') ?? defaultSizes)
+    .map(Number)
+    .filter((size) => size > 0);
+  const results: BenchmarkResult[] = [];
+  for (const size of sizes) {
+    results.push(await measure(size));
+  }
+
+  console.log('');
+  console.log(
+    'files   nodes   edges   analyze(ms)  blocked(ms)  max block(ms)  extract(ms)  focus(ms)  extract/file(ms)'
+  );
+  for (const r of results) {
+    console.log(
+      [
+        String(r.fileCount).padEnd(7),
+        String(r.nodeCount).padEnd(7),
+        String(r.edgeCount).padEnd(7),
+        r.analyzeMs.toFixed(0).padEnd(12),
+        r.analyzeBlockedMs.toFixed(0).padEnd(12),
+        r.analyzeMaxBlockMs.toFixed(0).padEnd(14),
+        r.extractMs.toFixed(0).padEnd(12),
+        r.focusMs.toFixed(0).padEnd(10),
+        (r.extractMs / r.fileCount).toFixed(3),
+      ].join(' ')
+    );
+  }
+}
+
+/**
+ * fileCount個のファイルの合成ワークスペースで、全体の解析・グラフ作成とフォーカスしたグラフ作成を計測
+ */
+async function measure(fileCount: number): Promise<BenchmarkResult> {
+  const rootPath = path.join(os.tmpdir(), `codemap-benchmark-${fileCount}`);
+  const filePaths = generateSyntheticWorkspace(rootPath, fileCount);
+  try {
+    const analyzer = new TypeScriptAnalyzer();
+    const extractor = new DependencyExtractor();
+
+    // 拡張機能と同じくキャンセルの確認のたびにイベントループに処理を返させる
+    const token = { isCancellationRequested: false } as vscode.CancellationToken;
+    const blocking = monitorBlocking();
+    let start = performance.now();
+    const analysisResult = await analyzer.analyzeWorkspace([rootPath], undefined, token);
+    const analyzeMs = performance.now() - start;
+    const { blockedMs: analyzeBlockedMs, maxBlockMs: analyzeMaxBlockMs } = blocking.stop();
+
+    start = performance.now();
+    const graphData = await extractor.extractGraphData(analyzer, analysisResult);
+    const extractMs = performance.now() - start;
+
+    // ファイル・名前（ファイルの指定なし）でフォーカスする
+    const middle = Math.floor(fileCount / 2);
+    start = performance.now();
+    await extractor.extractGraphData(
+      analyzer,
+      analysisResult,
+      filePaths[middle],
+      undefined,
+      [{ name: `fn${middle + 1}` }],
+      [{ name: `Service${middle + 2}` }]
+    );
+    const focusMs = performance.now() - start;
+
+    return {
+      fileCount,
+      nodeCount: graphData.nodes.length,
+      edgeCount: graphData.edges.length,
+      analyzeMs,
+      analyzeBlockedMs,
+      analyzeMaxBlockMs,
+      extractMs,
+      focusMs,
+    };
+  } finally {
+    fs.rmSync(rootPath, { recursive: true, force: true });
+  }
+}
+
+/**
+ * イベントループが塞がれた時間を計測（一定間隔のタイマーの遅れを集計する）
+ */
+function monitorBlocking(): { stop(): { blockedMs: number; maxBlockMs: number } } {
+  const interval = 10; // ミリ秒
+  let blockedMs = 0;
+  let maxBlockMs = 0;
+  let last = performance.now();
+  const timer = setInterval(() => {
+    const now = performance.now();
+    const delay = now - last - interval;
+    if (delay > interval) {
+      blockedMs += delay;
+      maxBlockMs = Math.max(maxBlockMs, delay);
+    }
+    last = now;
+  }, interval);
+  return {
+    stop() {
+      clearInterval(timer);
+      return { blockedMs, maxBlockMs };
+    },
+  };
+}
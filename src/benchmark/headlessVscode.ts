@@ -0,0 +1,107 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { globToRegExp } from '../utils/globUtils';
+
+/**
+ * VS Codeを起動せずにベンチマークを実行するための、vscodeモジュールの最小限の代替
+ * （解析・グラフ作成で使うAPIだけを実装する。runHeadlessBenchmark.tsから読み込ませる）
+ * vscodeに依存するモジュールを読み込むと循環するため、ここではvscodeに依存するユーティリティを使わないこと
+ */
+
+/** package.jsonで宣言している設定の既定値 */
+const configurationDefaults: Record<string, unknown> = (() => {
+  const packageJson = JSON.parse(
+    fs.readFileSync(path.resolve(__dirname, '..', '..', 'package.json'), 'utf-8')
+  );
+  const properties: Record<string, { default?: unknown }> =
+    packageJson.contributes?.configuration?.properties ?? {};
+  return Object.fromEntries(Object.entries(properties).map(([key, value]) => [key, value.default]));
+})();
+
+export class Uri {
+  readonly scheme = 'file';
+
+  private constructor(readonly fsPath: string) {}
+
+  get path(): string {
+    return this.fsPath;
+  }
+
+  static file(filePath: string): Uri {
+    return new Uri(path.normalize(filePath));
+  }
+
+  static joinPath(base: Uri, ...segments: string[]): Uri {
+    return new Uri(path.join(base.fsPath, ...segments));
+  }
+
+  toString(): string {
+    return `file://${this.fsPath}`;
+  }
+}
+
+export class RelativePattern {
+  readonly baseUri: Uri;
+
+  constructor(
+    base: string | Uri,
+    readonly pattern: string
+  ) {
+    this.baseUri = typeof base === 'string' ? Uri.file(base) : base;
+  }
+}
+
+export class CancellationError extends Error {
+  constructor() {
+    super('Canceled');
+  }
+}
+
+export const workspace = {
+  workspaceFolders: undefined,
+
+  getConfiguration(section: string) {
+    return {
+      get<T>(key: string, defaultValue?: T): T | undefined {
+        const value = configurationDefaults[`${section}.${key}`];
+        return value === undefined ? defaultValue : (value as T);
+      },
+    };
+  },
+
+  /**
+   * patternのフォルダ以下でpatternに一致し、excludeに一致しないファイルを探す
+   */
+  async findFiles(pattern: RelativePattern, exclude?: string): Promise<Uri[]> {
+    const include = globToRegExp(pattern.pattern);
+    const excluded = exclude ? globToRegExp(exclude) : undefined;
+    const uris: Uri[] = [];
+    const walk = (directory: string) => {
+      for (const entry of fs.readdirSync(directory, { withFileTypes: true })) {
+        const fullPath = path.join(directory, entry.name);
+        const relativePath = path.relative(pattern.baseUri.fsPath, fullPath).replace(/\\/g, '/');
+        if (entry.isDirectory()) {
+          if (!excluded?.test(`${relativePath}/`)) {
+            walk(fullPath);
+          }
+        } else if (include.test(relativePath) && !excluded?.test(relativePath)) {
+          uris.push(Uri.file(fullPath));
+        }
+      }
+    };
+    walk(pattern.baseUri.fsPath);
+    return uris;
+  },
+
+  fs: {
+    async readFile(uri: Uri): Promise<Uint8Array> {
+      return fs.promises.readFile(uri.fsPath);
+    },
+    async writeFile(uri: Uri, content: Uint8Array): Promise<void> {
+      await fs.promises.writeFile(uri.fsPath, content);
+    },
+    async createDirectory(uri: Uri): Promise<void> {
+      await fs.promises.mkdir(uri.fsPath, { recursive: true });
+    },
+  },
+};
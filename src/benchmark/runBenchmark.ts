@@ -0,0 +1,26 @@
+import * as path from 'path';
+import { spawnSync } from 'child_process';
+
+/**
+ * VS Codeを起動し、拡張機能ホストでベンチマーク（extractorBenchmark.ts）を実行する（npm run benchmark）
+ * VS Codeの実行ファイルは環境変数VSCODE_EXECUTABLEで指定する（未指定の場合はPATHのcode）
+ */
+function main(): void {
+  const extensionPath = path.resolve(__dirname, '..', '..');
+  const result = spawnSync(
+    process.env.VSCODE_EXECUTABLE || 'code',
+    [
+      `--extensionDevelopmentPath=${extensionPath}`,
+      `--extensionTestsPath=${path.join(__dirname, 'extractorBenchmark')}`,
+      '--disable-extensions',
+      '--new-window',
+    ],
+    { stdio: 'inherit', shell: process.platform === 'win32' }
+  );
+  if (result.error) {
+    console.error(`[LLM-CodeMap] Failed to launch VS Code: ${result.error.message}`);
+  }
+  process.exit(result.status ?? 1);
+}
+
+main();
@@ -0,0 +1,34 @@
+import Module = require('module');
+import * as headlessVscode from './headlessVscode';
+
+/**
+ * VS Codeを起動せずにベンチマーク（extractorBenchmark.ts）を実行する（npm run benchmark:headless）
+ * vscodeモジュールの代わりにheadlessVscode.tsを読み込ませるため、拡張機能ホストのオーバーヘッドは含まれない
+ */
+
+const moduleLoader = Module as unknown as {
+  _load(request: string, parent: unknown, isMain: boolean): unknown;
+};
+const load = moduleLoader._load;
+moduleLoader._load = function (request, parent, isMain) {
+  return request === 'vscode' ? headlessVscode : load.call(this, request, parent, isMain);
+};
+
+// 解析のログは表示しない（結果の表だけを表示する）
+const log = console.log;
+console.log = (...args: unknown[]) => {
+  if (!(typeof args[0] === 'string' && args[0].startsWith('[LLM-CodeMap]'))) {
+    log(...args);
+  }
+};
+console.warn = () => undefined;
+
+import('./extractorBenchmark')
+  .then((benchmark) => benchmark.run())
+  .then(
+    () => process.exit(0),
+    (error) => {
+      console.error(`[LLM-CodeMap] Benchmark failed: ${error}`);
+      process.exit(1);
+    }
+  );
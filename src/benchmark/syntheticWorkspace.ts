@@ -0,0 +1,99 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * ベンチマーク用の合成ワークスペースの生成
+ */
+
+/** 1フォルダあたりのファイル数 */
+const filesPerFolder = 100;
+
+/** 各ファイルがインポートする、前のファイルとの距離 */
+const importDistances = [1, 7, 50];
+
+/**
+ * fileCount個のTypeScriptファイルからなるワークスペースを作成し、ソースファイルのパスを返す
+ * 各ファイルは前のファイルの関数・クラスをインポートして呼び出し、インターフェースの実装、
+ * 型エイリアス、モジュールレベル変数の読み書きと、インポートしていないグローバルな型の参照を含む
+ */
+export function generateSyntheticWorkspace(rootPath: string, fileCount: number): string[] {
+  fs.rmSync(rootPath, { recursive: true, force: true });
+  fs.mkdirSync(path.join(rootPath, 'src'), { recursive: true });
+  fs.writeFileSync(
+    path.join(rootPath, 'tsconfig.json'),
+    JSON.stringify({ compilerOptions: { strict: true, target: 'ES2020' }, include: ['src'] })
+  );
+  fs.writeFileSync(
+    path.join(rootPath, 'package.json'),
+    JSON.stringify({ name: 'codemap-benchmark', version: '1.0.0', private: true })
+  );
+  // インポートせずに名前で参照されるグローバルなインターフェース（名前による検索の対象）
+  fs.writeFileSync(
+    path.join(rootPath, 'src', 'globals.ts'),
+    'interface Disposable {\n  dispose(): void;\n}\n'
+  );
+
+  const filePaths: string[] = [];
+  for (let index = 0; index < fileCount; index++) {
+    const filePath = path.join(rootPath, 'src', getModulePath(index) + '.ts');
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, createSource(index));
+    filePaths.push(filePath);
+  }
+  return filePaths;
+}
+
+/**
+ * ファイルのsrcからのパス（拡張子なし）
+ */
+export function getModulePath(index: number): string {
+  return `m${Math.floor(index / filesPerFolder)}/file${index}`;
+}
+
+/**
+ * index番目のファイルの内容
+ */
+function createSource(index: number): string {
+  const dependencies = importDistances.map((d) => index - d).filter((i) => i >= 0);
+  const imports = dependencies.map((i) => {
+    const specifier = path.posix.relative(
+      path.posix.dirname(getModulePath(index)),
+      getModulePath(i)
+    );
+    return `import { fn${i}, Service${i} } from '${specifier.startsWith('.') ? specifier : './' + specifier}';`;
+  });
+  const calls = dependencies.map((i) => `fn${i}(x)`).join(' + ') || '0';
+  const instantiation = dependencies.length > 0 ? `new Service${dependencies[0]}().area()` : '0';
+
+  return [
+    ...imports,
+    '',
+    `export interface Shape${index} {`,
+    '  area(): number;',
+    '}',
+    '',
+    `export type Id${index} = string | number;`,
+    '',
+    `export const counter${index} = { value: 0 };`,
+    '',
+    `export class Service${index} implements Shape${index}, Disposable {`,
+    '  area(): number {',
+    `    return fn${index}(counter${index}.value);`,
+    '  }',
+    '',
+    '  run(): number {',
+    `    return ${instantiation} + this.area();`,
+    '  }',
+    '',
+    '  dispose(): void {',
+    `    counter${index}.value = 0;`,
+    '  }',
+    '}',
+    '',
+    `export function fn${index}(x: number): number {`,
+    `  counter${index}.value++;`,
+    `  return ${calls} + x;`,
+    '}',
+    '',
+  ].join('\n');
+}
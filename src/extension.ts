@@ -3,6 +3,22 @@ import { CodemapViewProvider } from './visualizer/CodemapViewProvider';
 import { CodemapTool } from './tools/codemapTool';
 import { TypeScriptAnalyzer } from './analyzer/TypeScriptAnalyzer';
 import { DependencyExtractor } from './analyzer/DependencyExtractor';
+import { AnalysisSession } from './analyzer/AnalysisSession';
+import { AnalysisCache } from './analyzer/AnalysisCache';
+import { AnalysisProgress } from './analyzer/AnalysisProgress';
+import {
+  getUnknownWorkspaceFolderNames,
+  getWorkspaceFolderNames,
+  resolveWorkspaceFolders,
+} from './utils/workspaceUtils';
+import { isCancellationError } from './utils/cancellationUtils';
+import {
+  AnalysisResult,
+  FocusDirection,
+  GraphExtractionOptions,
+  GraphNode,
+  NodeType,
+} from './analyzer/types';
 
 /**
  * 拡張機能のアクティベート
@@ -20,43 +36,68 @@ export function activate(context: vscode.ExtensionContext) {
     vscode.window.registerWebviewViewProvider(CodemapViewProvider.viewType, provider)
   );
 
+  // リフレッシュで作成したグラフを、ファイルの変更に合わせて差分で更新するセッション
+  // 抽出結果とグラフはワークスペースごとのストレージにキャッシュする
+  const session = new AnalysisSession(
+    context.storageUri ? new AnalysisCache(context.storageUri) : undefined
+  );
+  context.subscriptions.push(
+    session,
+    session.onDidUpdateGraph((delta) => {
+      if (provider.applyGraphDelta(delta, 'session')) {
+        vscode.window.setStatusBarMessage('Code map updated incrementally', 2000);
+      }
+    }),
+    session.onDidChangeConfiguration(() => vscode.commands.executeCommand('codemap.refresh'))
+  );
+
   // リフレッシュコマンド
   context.subscriptions.push(
     vscode.commands.registerCommand('codemap.refresh', async () => {
-      const workspacePath = vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+      const workspacePaths = getWorkspacePaths();
 
-      if (!workspacePath) {
-        vscode.window.showWarningMessage('Please open a workspace first.');
+      if (workspacePaths.length === 0) {
+        showNoWorkspacePathsWarning();
         return;
       }
 
       try {
-        console.log(`[LLM-CodeMap] Starting analysis for workspace: ${workspacePath}`);
-        vscode.window.setStatusBarMessage('Analyzing code...', 1000);
+        console.log(`[LLM-CodeMap] Starting analysis for workspace: ${workspacePaths.join(', ')}`);
 
-        // コード解析
-        const analysisResult = await analyzer.analyzeWorkspace(workspacePath);
-        console.log(
-          `[LLM-CodeMap] Analysis result: ${analysisResult.files.length} files, ${analysisResult.functions.length} functions, ${analysisResult.classes.length} classes`
+        // コード解析と依存関係抽出（以降の変更はセッションが差分で反映する）
+        const graphData = await vscode.window.withProgress(
+          {
+            location: vscode.ProgressLocation.Notification,
+            title: 'LLM Code Map',
+            cancellable: true,
+          },
+          (progress, token) =>
+            session.analyze(
+              workspacePaths,
+              getGraphOptions(),
+              token,
+              new AnalysisProgress(progress)
+            )
         );
-
-        // 依存関係抽出
-        vscode.window.setStatusBarMessage('Extracting dependencies...', 1000);
-        console.log(`[LLM-CodeMap] Extracting dependencies...`);
-        const graphData = await extractor.extractGraphData(analyzer, analysisResult, undefined);
         console.log(
           `[LLM-CodeMap] Graph data extracted: ${graphData.nodes.length} nodes, ${graphData.edges.length} edges`
         );
 
         // グラフを更新
-        provider.updateGraph(graphData);
+        provider.updateGraph(graphData, 'session', true);
         console.log(`[LLM-CodeMap] Graph updated in webview`);
 
         vscode.window.setStatusBarMessage(
-          `Code map updated: ${graphData.nodes.length} nodes, ${graphData.edges.length} edges`,
+          `Code map updated: ${graphData.nodes.length} nodes, ${graphData.edges.length} edges` +
+            (graphData.truncation ? ' (reduced to fit the limits)' : ''),
           3000
         );
       } catch (error) {
+        if (isCancellationError(error)) {
+          console.log(`[LLM-CodeMap] Analysis cancelled`);
+          vscode.window.setStatusBarMessage('Code map analysis cancelled', 3000);
+          return;
+        }
         const errorMessage = error instanceof Error ? error.message : String(error);
         console.error(`[LLM-CodeMap] Error: ${errorMessage}`, error);
         vscode.window.showErrorMessage(`Failed to refresh code map: ${errorMessage}`);
@@ -64,11 +105,411 @@ export function activate(context: vscode.ExtensionContext) {
     })
   );
 
+  // 前回のセッションのグラフがあればすぐに表示し、変更されたファイルの分だけバックグラウンドで解析し直す
+  // （ステータスバーに進捗を表示し、結果は差分として表示中のグラフに反映する）
+  const initialPaths = getWorkspacePaths();
+  if (initialPaths.length > 0) {
+    session.restore(initialPaths).then((graphData) => {
+      if (!graphData) {
+        return;
+      }
+      console.log(`[LLM-CodeMap] Restored cached graph with ${graphData.nodes.length} nodes`);
+      provider.updateGraph(graphData, 'session');
+      vscode.window
+        .withProgress(
+          { location: vscode.ProgressLocation.Window, title: 'LLM Code Map' },
+          (progress) =>
+            session.revalidate(initialPaths, getGraphOptions(), new AnalysisProgress(progress))
+        )
+        .then(undefined, (error) => {
+          console.warn(`[LLM-CodeMap] Failed to revalidate the restored graph: ${error}`);
+        });
+    });
+  }
+
+  // マルチルートワークスペースで解析するフォルダを選択するコマンド
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codemap.selectWorkspaceFolders', async () => {
+      const folders = vscode.workspace.workspaceFolders || [];
+      if (folders.length === 0) {
+        vscode.window.showWarningMessage('Please open a workspace first.');
+        return;
+      }
+
+      const config = vscode.workspace.getConfiguration('codemap');
+      const selectedNames = config.get<string[]>('workspaceFolders', []);
+      const picked = await vscode.window.showQuickPick(
+        folders.map((folder) => ({
+          label: folder.name,
+          description: folder.uri.fsPath,
+          picked: selectedNames.length === 0 || selectedNames.includes(folder.name),
+        })),
+        { canPickMany: true, placeHolder: 'Select the workspace folders to analyze' }
+      );
+      if (!picked) {
+        return;
+      }
+
+      // すべて選択した場合は設定を空にし、後から追加されたフォルダも解析対象にする
+      const names = picked.length === folders.length ? [] : picked.map((item) => item.label);
+      await config.update('workspaceFolders', names, vscode.ConfigurationTarget.Workspace);
+      await vscode.commands.executeCommand('codemap.refresh');
+    })
+  );
+
+  // ファイルが解析対象から除外される理由を表示するコマンド（エクスプローラー・エディタから実行）
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codemap.explainExclusion', async (uri?: vscode.Uri) => {
+      const fileUri = uri || vscode.window.activeTextEditor?.document.uri;
+      if (!fileUri || fileUri.scheme !== 'file') {
+        vscode.window.showWarningMessage('Please select a file in the explorer or open it first.');
+        return;
+      }
+
+      const fileName = vscode.workspace.asRelativePath(fileUri);
+      const reason = await session.explainExclusion(fileUri.fsPath, getWorkspacePaths());
+      if (!reason) {
+        vscode.window.showInformationMessage(`${fileName} is included in the code map.`);
+        return;
+      }
+
+      const openIgnoreFile = 'Open Ignore File';
+      const openSettings = 'Open Settings';
+      const action = reason.ignoreFilePath
+        ? openIgnoreFile
+        : reason.source === 'include' || reason.source === 'exclude'
+          ? openSettings
+          : undefined;
+      const selected = await vscode.window.showInformationMessage(
+        `${fileName} is excluded from the code map. ${reason.description}`,
+        ...(action ? [action] : [])
+      );
+      if (selected === openIgnoreFile && reason.ignoreFilePath) {
+        const document = await vscode.workspace.openTextDocument(reason.ignoreFilePath);
+        const line = Math.max(0, (reason.line || 1) - 1);
+        await vscode.window.showTextDocument(document, {
+          selection: new vscode.Range(line, 0, line, 0),
+        });
+      } else if (selected === openSettings) {
+        await vscode.commands.executeCommand(
+          'workbench.action.openSettings',
+          `codemap.${reason.source}`
+        );
+      }
+    })
+  );
+
+  // エディタのカーソル位置のシンボル（宣言の外ではファイル）を中心に、向きを指定してグラフを表示するコマンド
+  const focusCommands: Array<[string, FocusDirection]> = [
+    ['codemap.showDependents', 'dependents'],
+    ['codemap.showDependencies', 'dependencies'],
+    ['codemap.showCallers', 'callers'],
+    ['codemap.showCallees', 'callees'],
+  ];
+  for (const [command, direction] of focusCommands) {
+    context.subscriptions.push(
+      vscode.commands.registerCommand(command, () => showFocusedGraph(direction, session, provider))
+    );
+  }
+
+  // カーソル位置のシンボルから、選択したシンボル・ファイルまでの依存関係の経路を表示するコマンド
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codemap.findPaths', () => showPathGraph(session, provider))
+  );
+
+  // カーソル位置のシンボルを変更した場合の影響範囲を表示するコマンド
+  context.subscriptions.push(
+    vscode.commands.registerCommand('codemap.showImpact', () => showImpactGraph(session, provider))
+  );
+
   // Language Model Toolを登録
   const codemapTool = new CodemapTool(provider, analyzer, extractor);
   context.subscriptions.push(vscode.lm.registerTool('codemap_analyze', codemapTool));
 }
 
+/**
+ * 設定で選択されたワークスペースフォルダのパスを取得（未選択の場合はすべて）
+ */
+function getWorkspacePaths(): string[] {
+  const config = vscode.workspace.getConfiguration('codemap');
+  return resolveWorkspaceFolders(config.get<string[]>('workspaceFolders', [])).map(
+    (folder) => folder.uri.fsPath
+  );
+}
+
+/**
+ * アクティブなエディタのカーソル位置のシンボルを中心に、指定した向きに辿ったグラフを表示
+ */
+async function showFocusedGraph(
+  direction: FocusDirection,
+  session: AnalysisSession,
+  provider: CodemapViewProvider
+): Promise<void> {
+  const cursor = getCursorTarget();
+  if (!cursor) {
+    return;
+  }
+
+  try {
+    const focused = await querySessionGraph(cursor.workspacePaths, session, (a, x, result) => {
+      const focusNodes = x.findNodeIdsAtPosition(a, cursor.filePath, cursor.position);
+      return focusNodes.length > 0
+        ? { focusNodes, graphData: x.focusGraphData(result, focusNodes, { direction }) }
+        : undefined;
+    });
+    if (!focused) {
+      showNotInCodeMapWarning(cursor.filePath);
+      return;
+    }
+
+    const { focusNodes, graphData } = focused;
+    await vscode.commands.executeCommand(`${CodemapViewProvider.viewType}.focus`);
+    provider.updateGraph(graphData);
+    const focusNode = graphData.nodes.find((n) => n.id === focusNodes[0]);
+    vscode.window.setStatusBarMessage(
+      `Code map: ${direction} of ${focusNode?.label ?? focusNodes[0]} ` +
+        `(${graphData.nodes.length} nodes, ${graphData.edges.length} edges)`,
+      3000
+    );
+  } catch (error) {
+    showCommandError('Failed to show code map', error);
+  }
+}
+
+/**
+ * アクティブなエディタのカーソル位置のシンボルから、QuickPickで選択したシンボル・ファイルまでの経路を表示
+ * （経路が見つからない場合は逆向きの検索を提案する）
+ */
+async function showPathGraph(
+  session: AnalysisSession,
+  provider: CodemapViewProvider
+): Promise<void> {
+  const cursor = getCursorTarget();
+  if (!cursor) {
+    return;
+  }
+
+  const maxPaths = vscode.workspace.getConfiguration('codemap').get<number>('maxPaths', 3);
+  try {
+    const start = await querySessionGraph(cursor.workspacePaths, session, (a, x) => {
+      const [from] = x.findNodeIdsAtPosition(a, cursor.filePath, cursor.position);
+      const nodes = x.getGraphData().nodes;
+      return from
+        ? {
+            fromNode: nodes.find((n) => n.id === from)!,
+            candidates: nodes.filter(
+              (n) => n.id !== from && n.type !== NodeType.Folder && n.type !== NodeType.Package
+            ),
+          }
+        : undefined;
+    });
+    if (!start) {
+      showNotInCodeMapWarning(cursor.filePath);
+      return;
+    }
+    const picked = await vscode.window.showQuickPick(
+      start.candidates.map((node) => ({
+        label: node.label,
+        description: node.type,
+        detail: vscode.workspace.asRelativePath(node.filePath),
+        node,
+      })),
+      {
+        placeHolder: `Find paths from ${start.fromNode.label} to...`,
+        matchOnDescription: true,
+        matchOnDetail: true,
+      }
+    );
+    if (!picked) {
+      return;
+    }
+
+    // QuickPickの表示中にグラフが更新されている場合があるため、検索はあらためてセッションに問い合わせる
+    let source: GraphNode = start.fromNode;
+    let target: GraphNode = picked.node;
+    const findPaths = () =>
+      session.query((_a, x, result) => x.findPathGraphData(result, source.id, target.id, maxPaths));
+    let graphData = await findPaths();
+    if (!graphData.paths?.length) {
+      const searchReverse = 'Search Reverse';
+      const selected = await vscode.window.showInformationMessage(
+        `No dependency path was found from ${source.label} to ${target.label}.`,
+        searchReverse
+      );
+      if (selected !== searchReverse) {
+        return;
+      }
+      [source, target] = [target, source];
+      graphData = await findPaths();
+      if (!graphData.paths?.length) {
+        vscode.window.showInformationMessage(
+          `No dependency path was found between ${source.label} and ${target.label} in either direction.`
+        );
+        return;
+      }
+    }
+
+    await vscode.commands.executeCommand(`${CodemapViewProvider.viewType}.focus`);
+    provider.updateGraph(graphData);
+    vscode.window.setStatusBarMessage(
+      `Code map: ${graphData.paths!.length} path(s) from ${source.label} to ${target.label} ` +
+        `(shortest: ${graphData.paths![0].nodeIds.length - 1} hops)`,
+      3000
+    );
+  } catch (error) {
+    showCommandError('Failed to find paths', error);
+  }
+}
+
+/**
+ * カーソル位置のシンボルを変更した場合に影響を受けるファイルとシンボルを、距離ごとに色分けして表示
+ */
+async function showImpactGraph(
+  session: AnalysisSession,
+  provider: CodemapViewProvider
+): Promise<void> {
+  const cursor = getCursorTarget();
+  if (!cursor) {
+    return;
+  }
+
+  try {
+    const impacted = await querySessionGraph(cursor.workspacePaths, session, (a, x, result) => {
+      const [target] = x.findNodeIdsAtPosition(a, cursor.filePath, cursor.position);
+      return target
+        ? {
+            targetNode: x.getGraphData().nodes.find((n) => n.id === target)!,
+            graphData: x.findImpactGraphData(result, target),
+          }
+        : undefined;
+    });
+    if (!impacted) {
+      showNotInCodeMapWarning(cursor.filePath);
+      return;
+    }
+
+    const { targetNode, graphData } = impacted;
+    const impact = graphData.impact!;
+    const fileCount = impact.levels
+      .slice(1)
+      .reduce((count, level) => count + level.filePaths.length, 0);
+    await vscode.commands.executeCommand(`${CodemapViewProvider.viewType}.focus`);
+    provider.updateGraph(graphData);
+    vscode.window.setStatusBarMessage(
+      `Code map: changing ${targetNode.label} may affect ${fileCount} other file(s) ` +
+        `within ${impact.levels.length - 1} hops, ${impact.testFiles.length} of them test files`,
+      5000
+    );
+  } catch (error) {
+    showCommandError('Failed to analyze change impact', error);
+  }
+}
+
+/**
+ * 解析するフォルダがない場合の警告を表示
+ * ワークスペースを開いていても、設定で選択したフォルダがどれも見つからない場合は、その名前と選択し直す方法を伝える
+ */
+async function showNoWorkspacePathsWarning(): Promise<void> {
+  const folderNames = getWorkspaceFolderNames();
+  if (folderNames.length === 0) {
+    vscode.window.showWarningMessage('Please open a workspace first.');
+    return;
+  }
+
+  const names = vscode.workspace.getConfiguration('codemap').get<string[]>('workspaceFolders', []);
+  const selectFolders = 'Select Folders';
+  const selected = await vscode.window.showWarningMessage(
+    `None of the folders in codemap.workspaceFolders are open: ` +
+      `${getUnknownWorkspaceFolderNames(names).join(', ')}. ` +
+      `Available folders: ${folderNames.join(', ')}`,
+    selectFolders
+  );
+  if (selected === selectFolders) {
+    await vscode.commands.executeCommand('codemap.selectWorkspaceFolders');
+  }
+}
+
+/**
+ * エディタのコマンドの対象（アクティブなエディタのファイルとカーソル位置、解析するフォルダ）を取得
+ * 対象がない場合は警告を表示してundefinedを返す
+ */
+function getCursorTarget():
+  | { filePath: string; position: number; workspacePaths: string[] }
+  | undefined {
+  const editor = vscode.window.activeTextEditor;
+  if (!editor || editor.document.uri.scheme !== 'file') {
+    vscode.window.showWarningMessage('Please open a source file first.');
+    return undefined;
+  }
+  const workspacePaths = getWorkspacePaths();
+  if (workspacePaths.length === 0) {
+    showNoWorkspacePathsWarning();
+    return undefined;
+  }
+  return {
+    filePath: editor.document.uri.fsPath,
+    position: editor.document.offsetAt(editor.selection.active),
+    workspacePaths,
+  };
+}
+
+/**
+ * 差分で更新しているセッションのグラフに問い合わせる
+ * まだ解析していない場合（リフレッシュ前など）のみ、進捗を通知に表示しながらワークスペース全体を解析する
+ */
+async function querySessionGraph<T>(
+  workspacePaths: string[],
+  session: AnalysisSession,
+  query: (
+    analyzer: TypeScriptAnalyzer,
+    extractor: DependencyExtractor,
+    analysisResult: AnalysisResult
+  ) => T
+): Promise<T> {
+  if (!session.hasGraph(workspacePaths)) {
+    await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'LLM Code Map',
+        cancellable: true,
+      },
+      (progress, token) =>
+        session.analyze(workspacePaths, getGraphOptions(), token, new AnalysisProgress(progress))
+    );
+  }
+  return session.query(query);
+}
+
+/**
+ * 設定からグラフの作成オプションを取得
+ */
+function getGraphOptions(): GraphExtractionOptions {
+  const config = vscode.workspace.getConfiguration('codemap');
+  return {
+    seeThroughBarrels: config.get<boolean>('seeThroughBarrels', false),
+    maxNodes: config.get<number>('maxNodes', 1000),
+    maxEdges: config.get<number>('maxEdges', 3000),
+  };
+}
+
+function showNotInCodeMapWarning(filePath: string): void {
+  vscode.window.showWarningMessage(
+    `${vscode.workspace.asRelativePath(filePath)} is not in the code map. ` +
+      `Run "LLM Code Map: Why Is This File Excluded?" to see why.`
+  );
+}
+
+function showCommandError(message: string, error: unknown): void {
+  if (isCancellationError(error)) {
+    console.log(`[LLM-CodeMap] Analysis cancelled`);
+    vscode.window.setStatusBarMessage('Code map analysis cancelled', 3000);
+    return;
+  }
+  const errorMessage = error instanceof Error ? error.message : String(error);
+  console.error(`[LLM-CodeMap] Error: ${errorMessage}`, error);
+  vscode.window.showErrorMessage(`${message}: ${errorMessage}`);
+}
+
 /**
  * 拡張機能のデアクティベート
  */
@@ -3,6 +3,17 @@ import { ICodemapParameters } from './types';
 import { CodemapViewProvider } from '../visualizer/CodemapViewProvider';
 import { TypeScriptAnalyzer } from '../analyzer/TypeScriptAnalyzer';
 import { DependencyExtractor } from '../analyzer/DependencyExtractor';
+import { AnalysisProgress } from '../analyzer/AnalysisProgress';
+import { GraphBudget } from '../analyzer/GraphBudget';
+import { IMPACT_EDGE_TYPES } from '../analyzer/ImpactAnalyzer';
+import { EdgeType, GraphData, GraphExtractionOptions, NodeType } from '../analyzer/types';
+import { isCancellationError } from '../utils/cancellationUtils';
+import {
+  getUnknownWorkspaceFolderNames,
+  getWorkspaceFolderNames,
+  resolveWorkspaceFolders,
+  resolveWorkspacePath,
+} from '../utils/workspaceUtils';
 
 /**
  * LLM Code Map Language Model Tool
@@ -19,8 +30,11 @@ export class CodemapTool implements vscode.LanguageModelTool<ICodemapParameters>
     _token: vscode.CancellationToken
   ) {
     const params = options.input;
-    const workspacePath =
-      params.workspacePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
+    const workspaceTarget =
+      params.workspacePath ||
+      (params.workspaceFolders && params.workspaceFolders.length > 0
+        ? params.workspaceFolders.join(', ')
+        : undefined);
 
     const focusItems: string[] = [];
     if (params.nodes && params.nodes.length > 0) {
@@ -62,6 +76,32 @@ export class CodemapTool implements vscode.LanguageModelTool<ICodemapParameters>
     if (params.focusNodes && params.focusNodes.length > 0) {
       focusItems.push(`**${params.focusNodes.length} specific nodes**`);
     }
+    if (params.impactOf) {
+      focusItems.push(`**Change impact of**: \`${params.impactOf}\``);
+    }
+    if (params.from || params.to) {
+      focusItems.push(
+        `**Paths**: from \`${params.from ?? '?'}\` to \`${params.to ?? '?'}\`` +
+          (params.maxPaths !== undefined ? ` (up to ${params.maxPaths})` : '') +
+          (params.maxPathLength !== undefined ? `, at most ${params.maxPathLength} hops` : '')
+      );
+    }
+    if (
+      params.depth !== undefined ||
+      params.inboundDepth !== undefined ||
+      params.outboundDepth !== undefined
+    ) {
+      focusItems.push(
+        `**Depth**: ${params.inboundDepth ?? params.depth ?? 'unlimited'} inbound, ` +
+          `${params.outboundDepth ?? params.depth ?? 'unlimited'} outbound`
+      );
+    }
+    if (params.direction && params.direction !== 'both') {
+      focusItems.push(`**Direction**: ${params.direction}`);
+    }
+    if (params.edgeTypes && params.edgeTypes.length > 0) {
+      focusItems.push(`**Following**: ${params.edgeTypes.map((t) => `\`${t}\``).join(', ')}`);
+    }
 
     const focusSection =
       focusItems.length > 0 ? `\n\n**Focusing on:**\n${focusItems.join('\n')}` : '';
@@ -70,7 +110,7 @@ export class CodemapTool implements vscode.LanguageModelTool<ICodemapParameters>
       title: 'Generate LLM Code Map',
       message: new vscode.MarkdownString(
         `Analyze code dependencies and structure` +
-          (workspacePath ? ` in \`${workspacePath}\`` : ' in the current workspace') +
+          (workspaceTarget ? ` in \`${workspaceTarget}\`` : ' in the current workspace') +
           (params.filePattern ? ` matching \`${params.filePattern}\`` : '') +
           focusSection +
           '?'
@@ -87,91 +127,355 @@ export class CodemapTool implements vscode.LanguageModelTool<ICodemapParameters>
     options: vscode.LanguageModelToolInvocationOptions<ICodemapParameters>,
     token: vscode.CancellationToken
   ): Promise<vscode.LanguageModelToolResult> {
+    // 呼び出し元のキャンセルと、進捗通知のキャンセルボタンのどちらでも中止する
+    const cancellation = new vscode.CancellationTokenSource();
+    const tokenListener = token.onCancellationRequested(() => cancellation.cancel());
     try {
-      const params = options.input;
-      const workspacePath =
-        params.workspacePath || vscode.workspace.workspaceFolders?.[0]?.uri.fsPath;
-
-      if (!workspacePath) {
-        throw new Error('Workspace path is not available. Please open a workspace first.');
-      }
-
-      // コード解析
-      vscode.window.setStatusBarMessage('Analyzing code...', 1000);
-      const analysisResult = await this._analyzer.analyzeWorkspace(
-        workspacePath,
-        params.filePattern
+      return await vscode.window.withProgress(
+        {
+          location: vscode.ProgressLocation.Notification,
+          title: 'LLM Code Map',
+          cancellable: true,
+        },
+        (progress, progressToken) => {
+          progressToken.onCancellationRequested(() => cancellation.cancel());
+          return this.generateCodemap(
+            options.input,
+            cancellation.token,
+            new AnalysisProgress(progress)
+          );
+        }
       );
-
-      if (token.isCancellationRequested) {
+    } catch (error) {
+      if (isCancellationError(error)) {
         return new vscode.LanguageModelToolResult([
           new vscode.LanguageModelTextPart('Code map analysis was cancelled.'),
         ]);
       }
 
-      // 依存関係抽出
-      vscode.window.setStatusBarMessage('Extracting dependencies...', 1000);
-
-      // LLMが直接ノードとエッジを指定している場合、それを使用
-      if (params.nodes && params.edges) {
-        console.log(
-          `[LLM-CodeMap] Using LLM-specified nodes (${params.nodes.length}) and edges (${params.edges.length})`
-        );
-        const graphData = this._extractor.createGraphFromLLMSpec(params.nodes, params.edges);
-        this._viewProvider.updateGraph(graphData);
+      const errorMessage = error instanceof Error ? error.message : String(error);
 
-        const summary =
-          `Code map generated successfully from LLM specification. ` +
-          `Displaying ${params.nodes.length} nodes and ${params.edges.length} edges. ` +
-          `The graph is displayed in the LLM Code Map sidebar view.`;
+      // LLMに適切なエラーメッセージを返す
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(
+          `Failed to generate code map: ${errorMessage}. ` +
+            `Please ensure that a workspace is open and contains TypeScript or JavaScript files.`
+        ),
+      ]);
+    } finally {
+      tokenListener.dispose();
+      cancellation.dispose();
+    }
+  }
 
-        return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(summary)]);
-      }
+  /**
+   * コードを解析してグラフを表示し、LLMに返す結果を作成
+   */
+  private async generateCodemap(
+    params: ICodemapParameters,
+    token: vscode.CancellationToken,
+    progress: AnalysisProgress
+  ): Promise<vscode.LanguageModelToolResult> {
+    const workspacePaths = this.resolveWorkspacePaths(params);
 
-      // 従来の方法で依存関係を抽出
-      const graphData = await this._extractor.extractGraphData(
-        this._analyzer,
-        analysisResult,
-        params.targetFile,
-        params.relatedFiles,
-        params.relatedFunctions,
-        params.relatedClasses,
-        params.focusNodes
-      );
+    if (workspacePaths.length === 0) {
+      throw new Error('Workspace path is not available. Please open a workspace first.');
+    }
 
-      if (token.isCancellationRequested) {
-        return new vscode.LanguageModelToolResult([
-          new vscode.LanguageModelTextPart('Code map analysis was cancelled.'),
-        ]);
-      }
+    // コード解析
+    const analysisResult = await this._analyzer.analyzeWorkspace(
+      workspacePaths,
+      params.filePattern,
+      token,
+      progress.slice(0, 70)
+    );
 
-      // グラフを更新
+    // LLMが直接ノードとエッジを指定している場合、それを使用
+    if (params.nodes && params.edges) {
+      console.log(
+        `[LLM-CodeMap] Using LLM-specified nodes (${params.nodes.length}) and edges (${params.edges.length})`
+      );
+      const graphData = this._extractor.createGraphFromLLMSpec(params.nodes, params.edges);
       this._viewProvider.updateGraph(graphData);
 
-      // 結果メッセージ
-      const nodeCount = graphData.nodes.length;
-      const edgeCount = graphData.edges.length;
-      const fileCount = analysisResult.files.length;
-      const functionCount = analysisResult.functions.length;
-      const classCount = analysisResult.classes.length;
-
       const summary =
-        `Code map generated successfully. ` +
-        `Found ${nodeCount} nodes (${fileCount} files, ${functionCount} functions, ${classCount} classes) ` +
-        `and ${edgeCount} dependencies. ` +
+        `Code map generated successfully from LLM specification. ` +
+        `Displaying ${params.nodes.length} nodes and ${params.edges.length} edges. ` +
         `The graph is displayed in the LLM Code Map sidebar view.`;
 
       return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(summary)]);
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
+    }
 
-      // LLMに適切なエラーメッセージを返す
+    const config = vscode.workspace.getConfiguration('codemap');
+    const options: GraphExtractionOptions = {
+      seeThroughBarrels:
+        params.seeThroughBarrels ?? config.get<boolean>('seeThroughBarrels', false),
+      maxNodes: config.get<number>('maxNodes', 1000),
+      maxEdges: config.get<number>('maxEdges', 3000),
+      depth: params.depth,
+      inboundDepth: params.inboundDepth,
+      outboundDepth: params.outboundDepth,
+      edgeTypes: params.edgeTypes as EdgeType[] | undefined,
+      direction: params.direction,
+    };
+
+    // impactOfが指定されている場合、その変更で影響を受ける範囲だけを表示
+    if (params.impactOf) {
+      await this._extractor.extractGraphData(
+        this._analyzer,
+        analysisResult,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        options,
+        token,
+        progress.slice(70, 100)
+      );
+      const impactGraphData = this._extractor.findImpactGraphData(
+        analysisResult,
+        params.impactOf,
+        params.inboundDepth ?? params.depth
+      );
+      this._viewProvider.updateGraph(impactGraphData);
       return new vscode.LanguageModelToolResult([
-        new vscode.LanguageModelTextPart(
-          `Failed to generate code map: ${errorMessage}. ` +
-            `Please ensure that a workspace is open and contains TypeScript or JavaScript files.`
-        ),
+        new vscode.LanguageModelTextPart(this.describeImpact(params, impactGraphData)),
+      ]);
+    }
+
+    // from・toが指定されている場合、その間の経路だけを表示
+    if (params.from || params.to) {
+      if (!params.from || !params.to) {
+        throw new Error('Specify both "from" and "to" to search for dependency paths');
+      }
+      await this._extractor.extractGraphData(
+        this._analyzer,
+        analysisResult,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        undefined,
+        options,
+        token,
+        progress.slice(70, 100)
+      );
+      const pathGraphData = this._extractor.findPathGraphData(
+        analysisResult,
+        params.from,
+        params.to,
+        params.maxPaths ?? config.get<number>('maxPaths', 3),
+        params.maxPathLength
+      );
+      this._viewProvider.updateGraph(pathGraphData);
+      return new vscode.LanguageModelToolResult([
+        new vscode.LanguageModelTextPart(this.describePaths(params, pathGraphData)),
       ]);
     }
+
+    // 従来の方法で依存関係を抽出
+    const graphData = await this._extractor.extractGraphData(
+      this._analyzer,
+      analysisResult,
+      params.targetFile,
+      params.relatedFiles,
+      params.relatedFunctions,
+      params.relatedClasses,
+      params.focusNodes,
+      options,
+      token,
+      progress.slice(70, 100)
+    );
+
+    // グラフを更新
+    this._viewProvider.updateGraph(graphData);
+
+    // 結果メッセージ
+    const nodeCount = graphData.nodes.length;
+    const edgeCount = graphData.edges.length;
+    const fileCount = analysisResult.files.length;
+    const functionCount = analysisResult.functions.length;
+    const classCount = analysisResult.classes.length;
+
+    let summary =
+      `Code map generated successfully. ` +
+      `Found ${nodeCount} nodes (${fileCount} files, ${functionCount} functions, ${classCount} classes) ` +
+      `and ${edgeCount} dependencies. ` +
+      `The graph is displayed in the LLM Code Map sidebar view.`;
+
+    // 辿る向き・深さ・エッジの種類を指定した場合は、より広く表示する方法を伝える
+    const { inboundDepth, outboundDepth, edgeTypes } = this._extractor.getFocusTraversal();
+    if (inboundDepth !== undefined || outboundDepth !== undefined || edgeTypes) {
+      summary +=
+        ` Dependencies were followed ${inboundDepth ?? 'unlimited'} hops inbound and ` +
+        `${outboundDepth ?? 'unlimited'} hops outbound from the focus` +
+        (edgeTypes?.length ? ` along ${edgeTypes.join(', ')} edges only` : '') +
+        `; call this tool again with another direction, larger depths or more edgeTypes to see more.`;
+    }
+
+    // 上限を超えて縮約・間引いた場合は、隠した内容と詳細を表示する方法を伝える
+    if (graphData.truncation) {
+      summary +=
+        ` Note: ${GraphBudget.describe(graphData.truncation)} ` +
+        `To see the hidden details, call this tool again with targetFile, relatedFiles, ` +
+        `relatedFunctions or relatedClasses to focus on the relevant part of the code, ` +
+        `or ask the user to raise the codemap.maxNodes / codemap.maxEdges settings.`;
+    }
+
+    return new vscode.LanguageModelToolResult([new vscode.LanguageModelTextPart(summary)]);
+  }
+
+  /**
+   * 影響範囲の検索結果をLLMに返す文章にする（距離ごとに、影響を受けるファイルとその中のシンボルを並べる）
+   */
+  private describeImpact(params: ICodemapParameters, graphData: GraphData): string {
+    const impact = graphData.impact!;
+    const maxDepth = params.inboundDepth ?? params.depth;
+    // 表示するグラフは縮約されている場合があるため、ノードの情報は縮約前のグラフから取得する
+    const nodes = new Map(this._extractor.getGraphData().nodes.map((n) => [n.id, n]));
+    const changed = impact.startNodeIds
+      .map((id) => nodes.get(id)!)
+      .filter((n) => n.type !== NodeType.File)
+      .map((n) => n.label);
+    const target =
+      `"${params.impactOf}"` + (changed.length > 0 ? ` (${changed.slice(0, 10).join(', ')})` : '');
+    const levels = impact.levels.slice(1);
+    const fileCount = levels.reduce((count, level) => count + level.filePaths.length, 0);
+    if (levels.length === 0) {
+      return (
+        `Nothing in the analyzed code depends on ${target}, so changing it should not affect other code ` +
+        `(dynamic access such as reflection or string-based lookups is not detected).`
+      );
+    }
+
+    const maxListedFiles = 100;
+    const lines: string[] = [];
+    let listedFiles = 0;
+    let symbolCount = 0;
+    for (const level of levels) {
+      // この距離で影響を受けるシンボルを、ファイルごとにまとめる
+      const symbolsByFile = new Map<string, string[]>();
+      for (const nodeId of level.nodeIds) {
+        const node = nodes.get(nodeId)!;
+        const symbols = symbolsByFile.get(node.filePath) ?? [];
+        if (node.type !== NodeType.File) {
+          symbols.push(node.label);
+          symbolCount++;
+        }
+        symbolsByFile.set(node.filePath, symbols);
+      }
+      if (listedFiles >= maxListedFiles) {
+        continue;
+      }
+      lines.push(`Distance ${level.distance} (${symbolsByFile.size} files):`);
+      for (const [filePath, symbols] of symbolsByFile) {
+        if (listedFiles++ >= maxListedFiles) {
+          lines.push(`- ... (more files omitted)`);
+          break;
+        }
+        lines.push(
+          `- ${vscode.workspace.asRelativePath(filePath)}` +
+            (symbols.length > 0 ? `: ${symbols.join(', ')}` : '') +
+            (impact.testFiles.includes(filePath) ? ' [test]' : '')
+        );
+      }
+    }
+
+    const testSection =
+      impact.testFiles.length > 0
+        ? `Test files in the blast radius (${impact.testFiles.length}): ` +
+          impact.testFiles.map((f) => vscode.workspace.asRelativePath(f)).join(', ')
+        : 'No test files depend on it, so the change is not covered by any detected test.';
+    return (
+      `Changing ${target} may affect ${symbolCount} symbol(s) in ${fileCount} other file(s), ` +
+      `found by following ${(params.edgeTypes?.length ? params.edgeTypes : IMPACT_EDGE_TYPES).join(', ')} dependencies backwards ` +
+      `(instantiates is new X(), reads / writes are accesses to variables). ` +
+      `Distance is the number of dependency hops from the change; the affected code is shown in the LLM Code Map sidebar view.\n` +
+      lines.join('\n') +
+      `\n${testSection}` +
+      (maxDepth !== undefined
+        ? `\nOnly dependents within ${maxDepth} hops were searched; call this tool again with a larger depth to see more.`
+        : '') +
+      (graphData.truncation
+        ? `\nNote: ${GraphBudget.describe(graphData.truncation)} ` +
+          `The list above is complete; only the graph in the view was reduced.`
+        : '')
+    );
+  }
+
+  /**
+   * 経路の検索結果をLLMに返す文章にする（経路ごとに、ノードとその間のエッジの種類を並べる）
+   */
+  private describePaths(params: ICodemapParameters, graphData: GraphData): string {
+    const paths = graphData.paths ?? [];
+    if (paths.length === 0) {
+      return (
+        `No dependency path was found from "${params.from}" to "${params.to}"` +
+        (params.maxPathLength !== undefined ? ` within ${params.maxPathLength} hops` : '') +
+        (params.edgeTypes?.length ? ` along ${params.edgeTypes.join(', ')} edges` : '') +
+        `. Paths only follow dependencies forwards (importer to imported module, caller to callee), ` +
+        `so try swapping from and to, or call this tool again without edgeTypes or maxPathLength.`
+      );
+    }
+
+    const nodes = new Map(graphData.nodes.map((n) => [n.id, n]));
+    const edges = new Map(graphData.edges.map((e) => [e.id, e]));
+    const describeNode = (nodeId: string) => {
+      const node = nodes.get(nodeId)!;
+      const filePath = vscode.workspace.asRelativePath(node.filePath);
+      return node.type === NodeType.File ? filePath : `${node.label} (${filePath})`;
+    };
+    const lines = paths.map((graphPath, index) => {
+      const steps = graphPath.nodeIds.map((nodeId, i) => {
+        if (i === 0) {
+          return describeNode(nodeId);
+        }
+        const types = new Set(
+          graphPath.edgeIds
+            .map((id) => edges.get(id)!)
+            .filter((e) => e.source === graphPath.nodeIds[i - 1] && e.target === nodeId)
+            .map((e) => e.type)
+        );
+        return `-[${Array.from(types).join('/')}]-> ${describeNode(nodeId)}`;
+      });
+      return `${index + 1}. ${steps.join(' ')}`;
+    });
+    return (
+      `Found ${paths.length} dependency path(s) from "${params.from}" to "${params.to}", shortest first. ` +
+      `The paths are highlighted in the LLM Code Map sidebar view.\n` +
+      lines.join('\n')
+    );
+  }
+
+  /**
+   * 解析対象のパスを決定
+   * workspacePath（絶対パスまたはフォルダ名）、workspaceFolders、設定の順に参照し、どれもなければ全フォルダ
+   */
+  private resolveWorkspacePaths(params: ICodemapParameters): string[] {
+    if (params.workspacePath) {
+      const workspacePath = resolveWorkspacePath(params.workspacePath);
+      if (!workspacePath) {
+        throw new Error(
+          `Unknown workspace folder "${params.workspacePath}". ` +
+            `Available folders: ${getWorkspaceFolderNames().join(', ')}`
+        );
+      }
+      return [workspacePath];
+    }
+
+    const names =
+      params.workspaceFolders ??
+      vscode.workspace.getConfiguration('codemap').get<string[]>('workspaceFolders', []);
+    const folders = resolveWorkspaceFolders(names);
+    // 指定した名前がどれも一致しない場合は、ワークスペースがないのではなく名前の誤りとして伝える
+    if (folders.length === 0 && names.length > 0 && getWorkspaceFolderNames().length > 0) {
+      throw new Error(
+        `Unknown workspace folders: ${getUnknownWorkspaceFolderNames(names).join(', ')}` +
+          (params.workspaceFolders ? '' : ' (from the codemap.workspaceFolders setting)') +
+          `. Available folders: ${getWorkspaceFolderNames().join(', ')}`
+      );
+    }
+    return folders.map((folder) => folder.uri.fsPath);
   }
 }
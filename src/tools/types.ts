@@ -6,9 +6,30 @@
  * codemapツールの入力パラメータ
  */
 export interface ICodemapParameters {
-  workspacePath?: string;
+  workspacePath?: string; // 解析対象の絶対パス、またはワークスペースフォルダ名
+  workspaceFolders?: string[]; // マルチルートワークスペースで解析するフォルダ名（未指定の場合は全フォルダ）
   filePattern?: string;
-  depth?: number;
+  seeThroughBarrels?: boolean; // バレルファイルを飛ばして宣言元のファイルへインポートエッジを張る
+  depth?: number; // フォーカスしたノードから辿る深さ（inboundDepth・outboundDepthの既定値。未指定の場合は無制限）
+  inboundDepth?: number; // フォーカスしたノードに依存しているノードを辿る深さ
+  outboundDepth?: number; // フォーカスしたノードが依存しているノードを辿る深さ
+  edgeTypes?: Array<
+    | 'import'
+    | 'export'
+    | 'call'
+    | 'extends'
+    | 'implements'
+    | 'reference'
+    | 'reads'
+    | 'writes'
+    | 'instantiates'
+  >; // フォーカスしたノードから辿るエッジの種類（未指定の場合はすべて）
+  direction?: 'both' | 'dependents' | 'dependencies' | 'callers' | 'callees'; // フォーカスしたノードから辿る向き
+  from?: string; // 経路を検索する場合の始点（ファイルパス、シンボル名、またはノードID）
+  to?: string; // 経路を検索する場合の終点（同上）
+  maxPaths?: number; // 検索する経路の数（短い順。未指定の場合は設定のcodemap.maxPaths）
+  maxPathLength?: number; // 経路の長さ（エッジの数）の上限
+  impactOf?: string; // 変更の影響範囲を調べる場合のファイルパス、シンボル名、またはノードID
   targetFile?: string; // 特定のファイルを中心に可視化する場合のファイルパス（相対パスまたはファイル名）
   relatedFiles?: string[]; // LLMが解析した関連ファイルのリスト（ファイルパスまたはファイル名）
   relatedFunctions?: Array<{
@@ -23,7 +44,7 @@ export interface ICodemapParameters {
   nodes?: Array<{
     id: string;
     label: string;
-    type: 'file' | 'function' | 'class' | 'method' | 'interface' | 'type' | 'variable';
+    type: 'file' | 'function' | 'class' | 'method' | 'interface' | 'type' | 'variable' | 'package';
     filePath?: string;
     line?: number;
     column?: number;
@@ -31,7 +52,16 @@ export interface ICodemapParameters {
   edges?: Array<{
     source: string;
     target: string;
-    type: 'import' | 'export' | 'call' | 'extends' | 'implements' | 'reference';
+    type:
+      | 'import'
+      | 'export'
+      | 'call'
+      | 'extends'
+      | 'implements'
+      | 'reference'
+      | 'reads'
+      | 'writes'
+      | 'instantiates';
     label?: string;
   }>; // LLMが直接指定するエッジ（依存関係）のリスト（推奨）
 }
@@ -0,0 +1,26 @@
+import * as vscode from 'vscode';
+
+/**
+ * 解析のキャンセルユーティリティ
+ */
+
+/**
+ * イベントループに処理を返してから、キャンセルされていれば vscode.CancellationError を投げる
+ * （同期的な処理が続くループでもキャンセルと進捗の通知を受け付けられるよう、ファイルごとに呼び出す）
+ */
+export async function checkCancellation(token?: vscode.CancellationToken): Promise<void> {
+  if (!token) {
+    return;
+  }
+  await new Promise((resolve) => setImmediate(resolve));
+  if (token.isCancellationRequested) {
+    throw new vscode.CancellationError();
+  }
+}
+
+/**
+ * キャンセルによる例外かどうかチェック
+ */
+export function isCancellationError(error: unknown): boolean {
+  return error instanceof vscode.CancellationError;
+}
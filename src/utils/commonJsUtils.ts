@@ -0,0 +1,48 @@
+import * as ts from 'typescript';
+
+/**
+ * CommonJSモジュール判定ユーティリティ
+ */
+
+/**
+ * module.exports かチェック
+ */
+export function isModuleExports(expression: ts.Expression): boolean {
+  return (
+    ts.isPropertyAccessExpression(expression) &&
+    ts.isIdentifier(expression.expression) &&
+    expression.expression.text === 'module' &&
+    expression.name.text === 'exports'
+  );
+}
+
+/**
+ * exports.name / module.exports.name への代入先からエクスポート名を取得
+ */
+export function getCommonJsExportName(expression: ts.Expression): string | undefined {
+  if (!ts.isPropertyAccessExpression(expression)) {
+    return undefined;
+  }
+  const target = expression.expression;
+  if ((ts.isIdentifier(target) && target.text === 'exports') || isModuleExports(target)) {
+    return expression.name.text;
+  }
+  return undefined;
+}
+
+/**
+ * トップレベルの exports.name = function / アロー関数 の代入かチェックし、エクスポート名を返す
+ */
+export function getCommonJsExportedFunctionName(node: ts.Node): string | undefined {
+  if (
+    (ts.isFunctionExpression(node) || ts.isArrowFunction(node)) &&
+    ts.isBinaryExpression(node.parent) &&
+    node.parent.right === node &&
+    node.parent.operatorToken.kind === ts.SyntaxKind.EqualsToken &&
+    ts.isExpressionStatement(node.parent.parent) &&
+    ts.isSourceFile(node.parent.parent.parent)
+  ) {
+    return getCommonJsExportName(node.parent.left);
+  }
+  return undefined;
+}
@@ -8,24 +8,13 @@ import * as fs from 'fs';
 
 /**
  * ワークスペース内のファイルを検索
+ * （除外するファイルはFileFilterで判定する。excludeは検索を速くするためのもの）
  */
-export async function findFiles(pattern: string, exclude?: string): Promise<vscode.Uri[]> {
-  const defaultExclude = [
-    '**/node_modules/**',
-    '**/.git/**',
-    '**/dist/**',
-    '**/build/**',
-    '**/.next/**',
-    '**/out/**',
-    '**/coverage/**',
-    '**/.cache/**',
-    '**/tmp/**',
-    '**/temp/**',
-    '**/*.min.js',
-    '**/*.bundle.js',
-  ].join(',');
-  const excludePattern = exclude || defaultExclude;
-  return await vscode.workspace.findFiles(pattern, excludePattern);
+export async function findFiles(
+  pattern: vscode.GlobPattern,
+  exclude?: string
+): Promise<vscode.Uri[]> {
+  return await vscode.workspace.findFiles(pattern, exclude);
 }
 
 /**
@@ -74,45 +63,14 @@ export function isTypeScriptOrJavaScriptFile(filePath: string): boolean {
 }
 
 /**
- * ファイルパスが除外対象かどうかチェック
+ * テストファイルかどうかチェック（*.test.ts・*.spec.tsや、__tests__・test・testsディレクトリ内のファイル）
+ * ワークスペースの外のディレクトリ名で誤判定しないよう、ワークスペースからの相対パスで判定する
  */
-export function shouldExcludeFile(filePath: string): boolean {
-  const normalizedPath = filePath.replace(/\\/g, '/').toLowerCase();
-
-  // 主要な除外パターン（ビルド成果物、依存関係、キャッシュなど）
-  const excludePatterns = [
-    '/node_modules/',
-    '/.git/',
-    '/dist/',
-    '/build/',
-    '/.next/',
-    '/out/',
-    '/coverage/',
-    '/.cache/',
-    '/tmp/',
-    '/temp/',
-    '/.vscode/',
-    '/.idea/',
-    '/.vs/',
-    '/.turbo/',
-    '/.swc/',
-    '/.parcel-cache/',
-    '/.yarn/',
-    '/.pnp/',
-    '/.expo/',
-    '/ios/build/',
-    '/android/build/',
-    '/storybook-static/',
-    '/.docusaurus/',
-    '/.umi-production/',
-    '/.umi-test/',
-    '/.min.js',
-    '/.bundle.js',
-    '/.chunk.js',
-    '/.map',
-  ];
-
-  return excludePatterns.some((pattern) => normalizedPath.includes(pattern));
+export function isTestFile(filePath: string): boolean {
+  return (
+    /\.(test|spec)\.[cm]?[jt]sx?$/i.test(filePath) ||
+    /(^|[\\/])(__tests__|tests?)[\\/]/i.test(filePath)
+  );
 }
 
 /**
@@ -0,0 +1,62 @@
+/**
+ * globパターンのマッチングユーティリティ
+ */
+
+/**
+ * globパターンを正規表現に変換
+ * 対応する記法: ** （0個以上のディレクトリ）、*、?、[abc]、{a,b}（入れ子も可）
+ */
+export function globToRegExp(pattern: string): RegExp {
+  return new RegExp(`^${convertGlob(pattern)}$`);
+}
+
+function convertGlob(pattern: string): string {
+  let result = '';
+  let braceDepth = 0;
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '*') {
+      if (pattern[i + 1] === '*') {
+        // **/ は0個以上のディレクトリ、末尾の ** は以降のすべてに一致
+        i++;
+        if (pattern[i + 1] === '/') {
+          i++;
+          result += '(?:[^/]*(?:/|$))*';
+        } else {
+          result += '.*';
+        }
+      } else {
+        result += '[^/]*';
+      }
+    } else if (char === '?') {
+      result += '[^/]';
+    } else if (char === '[') {
+      const end = pattern.indexOf(']', i + 1);
+      if (end === -1) {
+        result += '\\[';
+      } else {
+        const content = pattern.slice(i + 1, end).replace(/\\/g, '\\\\');
+        result += `[${content.startsWith('!') ? '^' + content.slice(1) : content}]`;
+        i = end;
+      }
+    } else if (char === '{') {
+      braceDepth++;
+      result += '(?:';
+    } else if (char === '}' && braceDepth > 0) {
+      braceDepth--;
+      result += ')';
+    } else if (char === ',' && braceDepth > 0) {
+      result += '|';
+    } else if (char === '\\' && i + 1 < pattern.length) {
+      i++;
+      result += escapeRegExp(pattern[i]);
+    } else {
+      result += escapeRegExp(char);
+    }
+  }
+  return result;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.+^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,12 @@
+import * as crypto from 'crypto';
+
+/**
+ * ハッシュ計算ユーティリティ
+ */
+
+/**
+ * ファイルの内容のハッシュを計算（キャッシュの照合に使用）
+ */
+export function hashContent(content: string): string {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
@@ -0,0 +1,72 @@
+import { globToRegExp } from './globUtils';
+
+/**
+ * .gitignore形式の除外ファイル（.gitignore、.codemapignore）のユーティリティ
+ */
+
+/**
+ * 除外ファイルの1行分のルール
+ */
+export interface IgnoreRule {
+  pattern: string; // 除外ファイルに書かれたパターン
+  line: number; // 行番号（1始まり）
+  negated: boolean; // !で始まる（除外を取り消す）ルール
+  directoryOnly: boolean; // /で終わる（ディレクトリにだけ一致する）ルール
+  regex: RegExp; // 除外ファイルのディレクトリからの相対パスに対する正規表現
+}
+
+/**
+ * 除外ファイルの内容をルールの配列に変換
+ * /を含むパターンは除外ファイルのディレクトリからの相対パス、含まないパターンは任意の階層の名前に一致する
+ */
+export function parseIgnoreFile(content: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  content.split(/\r?\n/).forEach((rawLine, index) => {
+    // 末尾の空白は無視する（\でエスケープした空白は残す）
+    let pattern = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!pattern || pattern.startsWith('#')) {
+      return;
+    }
+
+    const negated = pattern.startsWith('!');
+    if (negated) {
+      pattern = pattern.slice(1);
+    }
+    const directoryOnly = pattern.endsWith('/');
+    let body = directoryOnly ? pattern.replace(/\/+$/, '') : pattern;
+    if (!body) {
+      return;
+    }
+    const anchored = body.includes('/');
+    body = body.replace(/^\//, '');
+
+    // .gitignoreでは{}は通常の文字として扱う
+    const glob = (anchored ? '' : '**/') + body.replace(/[{},]/g, '\\$&');
+    rules.push({
+      pattern: rawLine.trim(),
+      line: index + 1,
+      negated,
+      directoryOnly,
+      regex: globToRegExp(glob),
+    });
+  });
+  return rules;
+}
+
+/**
+ * 相対パスに最後に一致したルールを取得（一致しなければundefined）
+ * 一致したルールがnegatedの場合、そのパスは除外されない
+ */
+export function findMatchingIgnoreRule(
+  rules: IgnoreRule[],
+  relativePath: string,
+  isDirectory: boolean
+): IgnoreRule | undefined {
+  let matched: IgnoreRule | undefined;
+  for (const rule of rules) {
+    if ((!rule.directoryOnly || isDirectory) && rule.regex.test(relativePath)) {
+      matched = rule;
+    }
+  }
+  return matched;
+}
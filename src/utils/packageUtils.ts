@@ -0,0 +1,141 @@
+import * as path from 'path';
+import * as fs from 'fs';
+import { builtinModules } from 'module';
+
+/**
+ * package.json・npmパッケージ関連のユーティリティ
+ */
+
+/**
+ * package.jsonのうち解析で使用する部分
+ */
+export interface PackageJson {
+  name?: string;
+  version?: string;
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  peerDependencies?: Record<string, string>;
+  optionalDependencies?: Record<string, string>;
+  main?: string;
+  types?: string;
+  source?: string;
+  workspaces?: string[] | { packages?: string[] };
+}
+
+/**
+ * package.jsonに宣言された依存関係
+ */
+export interface DeclaredDependency {
+  version: string;
+  dependencyType: 'dependencies' | 'devDependencies' | 'peerDependencies' | 'optionalDependencies';
+  packageJsonPath: string;
+}
+
+const dependencyTypes: DeclaredDependency['dependencyType'][] = [
+  'dependencies',
+  'devDependencies',
+  'peerDependencies',
+  'optionalDependencies',
+];
+
+/**
+ * モジュール指定子からパッケージ名を取得（相対パス・絶対パスの場合はundefined）
+ * 例: 'lodash/fp' -> 'lodash'、'@scope/pkg/sub' -> '@scope/pkg'
+ */
+export function getPackageName(specifier: string): string | undefined {
+  if (specifier.startsWith('.') || path.isAbsolute(specifier)) {
+    return undefined;
+  }
+
+  const parts = specifier.split('/');
+  if (specifier.startsWith('@')) {
+    return parts.length >= 2 && parts[1] ? `${parts[0]}/${parts[1]}` : undefined;
+  }
+  return parts[0] || undefined;
+}
+
+/**
+ * Node.jsの組み込みモジュールかチェック（'fs'、'node:fs'、'fs/promises'など）
+ */
+export function isBuiltinModule(specifier: string): boolean {
+  if (specifier.startsWith('node:')) {
+    return true;
+  }
+  return builtinModules.includes(specifier) || builtinModules.includes(specifier.split('/')[0]);
+}
+
+/**
+ * package.jsonを読み込む（キャッシュを指定した場合は結果を保持する）
+ */
+export function readPackageJson(
+  packageJsonPath: string,
+  cache?: Map<string, PackageJson | undefined>
+): PackageJson | undefined {
+  if (cache?.has(packageJsonPath)) {
+    return cache.get(packageJsonPath);
+  }
+
+  let packageJson: PackageJson | undefined;
+  try {
+    packageJson = JSON.parse(fs.readFileSync(packageJsonPath, 'utf-8'));
+  } catch {
+    packageJson = undefined;
+  }
+  cache?.set(packageJsonPath, packageJson);
+  return packageJson;
+}
+
+/**
+ * ファイルのあるディレクトリから、ルートまでの祖先ディレクトリを近い順に取得
+ */
+function getAncestorDirectories(filePath: string): string[] {
+  const directories: string[] = [];
+  let directory = path.dirname(filePath);
+  while (!directories.includes(directory)) {
+    directories.push(directory);
+    directory = path.dirname(directory);
+  }
+  return directories;
+}
+
+/**
+ * ファイルから親ディレクトリを辿り、パッケージの依存関係として宣言されているものを探す
+ * （最も近いpackage.jsonで見つからない場合は、モノレポのルートなど上位のpackage.jsonも確認する）
+ */
+export function findDeclaredDependency(
+  packageName: string,
+  fromFilePath: string,
+  cache?: Map<string, PackageJson | undefined>
+): DeclaredDependency | undefined {
+  for (const directory of getAncestorDirectories(fromFilePath)) {
+    const packageJsonPath = path.join(directory, 'package.json');
+    const packageJson = readPackageJson(packageJsonPath, cache);
+    for (const dependencyType of dependencyTypes) {
+      const version = packageJson?.[dependencyType]?.[packageName];
+      if (version) {
+        return { version, dependencyType, packageJsonPath };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Node.jsのモジュール解決と同じ順にnode_modulesを探し、インストールされているバージョンを取得
+ */
+export function findInstalledVersion(
+  packageName: string,
+  fromFilePath: string,
+  cache?: Map<string, PackageJson | undefined>
+): string | undefined {
+  for (const directory of getAncestorDirectories(fromFilePath)) {
+    const packageJson = readPackageJson(
+      path.join(directory, 'node_modules', packageName, 'package.json'),
+      cache
+    );
+    if (packageJson?.version) {
+      return packageJson.version;
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,64 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+
+/**
+ * ワークスペースフォルダ（マルチルートワークスペース）関連のユーティリティ
+ */
+
+/**
+ * 解析対象のワークスペースフォルダを取得
+ * 名前の指定がない場合はすべてのフォルダを返す
+ */
+export function resolveWorkspaceFolders(names?: string[]): vscode.WorkspaceFolder[] {
+  const folders = vscode.workspace.workspaceFolders || [];
+  if (!names || names.length === 0) {
+    return [...folders];
+  }
+
+  const selected = folders.filter((folder) =>
+    names.some((name) => matchesWorkspaceFolder(folder, name))
+  );
+  const unknown = getUnknownWorkspaceFolderNames(names);
+  if (unknown.length > 0) {
+    console.warn(`[LLM-CodeMap] Unknown workspace folders: ${unknown.join(', ')}`);
+  }
+  return selected;
+}
+
+/**
+ * 指定した名前のうち、どのワークスペースフォルダにも一致しないもの
+ */
+export function getUnknownWorkspaceFolderNames(names: string[]): string[] {
+  const folders = vscode.workspace.workspaceFolders || [];
+  return names.filter((name) => !folders.some((folder) => matchesWorkspaceFolder(folder, name)));
+}
+
+/**
+ * フォルダ名または絶対パスを解析対象のパスに変換
+ * 絶対パスはそのまま、フォルダ名はワークスペースフォルダのパスに変換する
+ */
+export function resolveWorkspacePath(nameOrPath: string): string | undefined {
+  if (path.isAbsolute(nameOrPath)) {
+    return path.normalize(nameOrPath);
+  }
+  return (vscode.workspace.workspaceFolders || []).find((folder) =>
+    matchesWorkspaceFolder(folder, nameOrPath)
+  )?.uri.fsPath;
+}
+
+/**
+ * ワークスペースフォルダの名前一覧を取得（エラーメッセージ用）
+ */
+export function getWorkspaceFolderNames(): string[] {
+  return (vscode.workspace.workspaceFolders || []).map((folder) => folder.name);
+}
+
+/**
+ * フォルダ名（大文字小文字は区別しない）またはパスが一致するかチェック
+ */
+function matchesWorkspaceFolder(folder: vscode.WorkspaceFolder, nameOrPath: string): boolean {
+  return (
+    folder.name.toLowerCase() === nameOrPath.toLowerCase() ||
+    path.normalize(folder.uri.fsPath) === path.normalize(nameOrPath)
+  );
+}
@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
-import { GraphData } from '../analyzer/types';
-import { transformToD3Format } from './graphDataTransformer';
+import { GraphData, GraphDelta, GraphTruncation } from '../analyzer/types';
+import { GraphBudget } from '../analyzer/GraphBudget';
+import { transformDeltaToD3Format, transformToD3Format } from './graphDataTransformer';
 
 /**
  * LLM Code Map WebviewViewプロバイダー
@@ -10,6 +11,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
   public static readonly viewType = 'codemapView';
   private _view?: vscode.WebviewView;
   private _graphData?: GraphData;
+  private _graphSource?: string; // 表示中のグラフの送信元（差分を適用してよいかの判定に使用）
 
   constructor(private readonly _extensionUri: vscode.Uri) {}
 
@@ -52,6 +54,10 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             }
           }
           break;
+        case 'openSettings':
+          // 縮約の通知から、ノード数・エッジ数の上限の設定を開く
+          vscode.commands.executeCommand('workbench.action.openSettings', 'codemap.max');
+          break;
         case 'ready':
           // Webviewが準備できたら、既存のデータがあれば送信
           if (this._graphData) {
@@ -64,8 +70,10 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
 
   /**
    * グラフデータを更新
+   * sourceを指定した場合、同じsourceからの差分（applyGraphDelta）を受け付ける
+   * preserveLayoutを指定した場合、表示中のノードと同じIDのノードは位置を引き継ぐ
    */
-  public updateGraph(graphData: GraphData): void {
+  public updateGraph(graphData: GraphData, source?: string, preserveLayout = false): void {
     console.log(
       `[LLM-CodeMap] updateGraph called with ${graphData.nodes.length} nodes, ${graphData.edges.length} edges`
     );
@@ -87,6 +95,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
     }
 
     this._graphData = graphData;
+    this._graphSource = source;
 
     if (!this._view) {
       console.warn('[LLM-CodeMap] WebviewView is not available, cannot update graph');
@@ -119,6 +128,8 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
       this._view.webview.postMessage({
         type: 'updateGraph',
         data: d3Data,
+        preserveLayout,
+        notice: this.getTruncationNotice(graphData.truncation),
       });
       console.log('[LLM-CodeMap] Graph data sent to webview');
     } catch (error) {
@@ -126,6 +137,60 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
     }
   }
 
+  /**
+   * 表示中のグラフに差分を適用（ノードの配置はそのまま）
+   * 別の送信元のグラフ（LLMのツールが作成したものなど）を表示中の場合は適用せずfalseを返す
+   */
+  public applyGraphDelta(delta: GraphDelta, source: string): boolean {
+    if (!this._graphData || this._graphSource !== source) {
+      return false;
+    }
+
+    const removedNodeIds = new Set([
+      ...delta.removedNodeIds,
+      ...delta.upsertedNodes.map((n) => n.id),
+    ]);
+    const removedEdgeIds = new Set([
+      ...delta.removedEdgeIds,
+      ...delta.upsertedEdges.map((e) => e.id),
+    ]);
+    this._graphData = {
+      nodes: [
+        ...this._graphData.nodes.filter((n) => !removedNodeIds.has(n.id)),
+        ...delta.upsertedNodes,
+      ],
+      edges: [
+        ...this._graphData.edges.filter((e) => !removedEdgeIds.has(e.id)),
+        ...delta.upsertedEdges,
+      ],
+      truncation: delta.truncation,
+    };
+
+    if (this._view) {
+      this._view.webview.postMessage({
+        type: 'updateGraphDelta',
+        data: transformDeltaToD3Format(delta),
+        notice: this.getTruncationNotice(delta.truncation),
+      });
+      console.log('[LLM-CodeMap] Graph delta sent to webview');
+    }
+    return true;
+  }
+
+  /**
+   * グラフを縮約・間引いた場合に、隠したものと表示する方法をWebviewで知らせる文章
+   */
+  private getTruncationNotice(truncation?: GraphTruncation): string | undefined {
+    if (!truncation) {
+      return undefined;
+    }
+    return (
+      GraphBudget.describe(truncation) +
+      ' Raise codemap.maxNodes / codemap.maxEdges to show more, ' +
+      'or ask the code map tool to focus on specific files.'
+    );
+  }
+
   /**
    * Webview用のHTMLを生成
    */
@@ -176,6 +241,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             stroke-opacity: 0.8;
             stroke-width: 2px;
             fill: none;
+            cursor: pointer;
         }
         .link.import {
             stroke: #1f77b4;
@@ -202,6 +268,54 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             stroke-width: 1.5px;
             stroke-opacity: 0.5;
         }
+        .link.reads {
+            stroke: #17becf;
+            stroke-width: 1.5px;
+        }
+        .link.writes {
+            stroke: #bcbd22;
+            stroke-width: 2.5px;
+        }
+        .link.instantiates {
+            stroke: #e7ba52;
+            stroke-width: 2.5px;
+            stroke-dasharray: 6 3;
+        }
+        .link.import.dynamic {
+            stroke-dasharray: 8 4;
+        }
+        .link.import.require {
+            stroke: #6baed6;
+        }
+        .link.import.sideEffect {
+            stroke-dasharray: 2 4;
+            stroke-opacity: 0.5;
+        }
+        .link.crossFolder {
+            stroke-width: 2.5px;
+            stroke-opacity: 0.9;
+        }
+        .link.onPath {
+            stroke-width: 5px;
+            stroke-opacity: 1;
+        }
+        .node.onPath circle {
+            stroke: var(--vscode-focusBorder, #f5a623);
+            stroke-width: 4px;
+        }
+        .node.impactSource circle {
+            stroke: var(--vscode-editorError-foreground, #f14c4c);
+            stroke-width: 4px;
+        }
+        .node.impactDirect circle {
+            stroke: var(--vscode-editorWarning-foreground, #cca700);
+            stroke-width: 3px;
+        }
+        .node.impactTest circle {
+            stroke: var(--vscode-testing-iconPassed, #73c991);
+            stroke-width: 4px;
+            stroke-dasharray: 3 2;
+        }
         .tooltip {
             position: absolute;
             padding: 8px;
@@ -239,6 +353,22 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
         button:hover {
             background: var(--vscode-button-hoverBackground);
         }
+        #notice {
+            position: absolute;
+            top: 10px;
+            left: 10px;
+            max-width: 50%;
+            z-index: 1000;
+            background: var(--vscode-editorWidget-background);
+            padding: 8px;
+            border-radius: 4px;
+            border: 1px solid var(--vscode-editorWarning-foreground);
+            font-size: 11px;
+            display: none;
+        }
+        #notice.visible {
+            display: block;
+        }
         #info {
             position: absolute;
             bottom: 10px;
@@ -259,6 +389,13 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             <button id="zoom-out">Zoom Out</button>
             <button id="reset">Reset</button>
             <button id="center">Center</button>
+            <button id="toggle-packages">Hide Packages</button>
+            <button id="collapse-packages">Collapse Packages</button>
+        </div>
+        <div id="notice">
+            <div id="notice-text"></div>
+            <button id="notice-settings">Open Settings</button>
+            <button id="notice-dismiss">Dismiss</button>
         </div>
         <div id="info">Nodes: 0 | Links: 0</div>
         <div class="tooltip" id="tooltip"></div>
@@ -275,6 +412,10 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
         let tooltip = d3.select('#tooltip');
         let linkSelection; // リンクのセレクションを保持
         let nodeSelection; // ノードのセレクションを保持
+        let rawGraphData = null; // 拡張機能から受け取った元のグラフデータ
+        const viewOptions = { hidePackages: false, collapsePackages: false }; // 表示の切り替え状態
+        const collapsedGroups = new Set(); // 折りたたまれているグループノードのID
+        const knownGroups = new Set(); // 一度表示したグループノードのID
         
         console.log('[LLM-CodeMap Webview] Variables initialized');
         
@@ -286,7 +427,9 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             'method': '#d62728',
             'interface': '#9467bd',
             'type': '#8c564b',
-            'variable': '#e377c2'
+            'variable': '#e377c2',
+            'package': '#393b79',
+            'folder': '#637939'
         };
         
         const edgeColors = {
@@ -295,9 +438,149 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             'call': '#ff7f0e',
             'extends': '#d62728',
             'implements': '#9467bd',
-            'reference': '#7f7f7f'
+            'reference': '#7f7f7f',
+            'reads': '#17becf',
+            'writes': '#bcbd22',
+            'instantiates': '#e7ba52'
         };
         
+        // 通常のimport文以外のインポート（dynamic, require, sideEffect）を描き分けるためのクラス
+        function getImportKindClass(d) {
+            const kind = d.metadata && d.metadata.kind;
+            return d.type === 'import' && kind && kind !== 'static' ? ' ' + kind : '';
+        }
+        
+        // ワークスペースフォルダをまたぐエッジのクラス
+        function getCrossFolderClass(d) {
+            return d.metadata && d.metadata.crossFolder ? ' crossFolder' : '';
+        }
+        
+        // 経路の検索結果で、経路上にあるノード・エッジのクラス
+        function getPathClass(d) {
+            return d.metadata && d.metadata.pathIndexes ? ' onPath' : '';
+        }
+        
+        // 影響範囲の検索結果で、変更したノード・直接依存するノード・テストファイルのクラス
+        function getImpactClass(d) {
+            if (!d.metadata || d.metadata.impactDistance === undefined) {
+                return '';
+            }
+            if (d.metadata.isTestFile) {
+                return ' impactTest';
+            }
+            return d.metadata.impactDistance === 0 ? ' impactSource' : d.metadata.impactDistance === 1 ? ' impactDirect' : '';
+        }
+        
+        // 表示用のグラフを作成（外部パッケージの表示切り替え、グループの折りたたみ）
+        function buildView(data) {
+            if (!data || !data.nodes || !data.links) {
+                return data;
+            }
+            return collapseGroups(applyPackageOptions(data));
+        }
+        
+        // 表示オプションに応じて外部パッケージを隠す・1つのノードにまとめる
+        function applyPackageOptions(data) {
+            const isExternalPackage = n => n.type === 'package' && n.metadata && n.metadata.isExternal;
+            const packageIds = new Set(data.nodes.filter(isExternalPackage).map(n => n.id));
+            if (packageIds.size === 0 || (!viewOptions.hidePackages && !viewOptions.collapsePackages)) {
+                return data;
+            }
+            
+            const viewNodes = data.nodes.filter(n => !packageIds.has(n.id));
+            if (viewOptions.hidePackages) {
+                return {
+                    nodes: viewNodes,
+                    links: data.links.filter(l => !packageIds.has(l.source) && !packageIds.has(l.target))
+                };
+            }
+            
+            const collapsedId = 'package:*';
+            viewNodes.push({
+                id: collapsedId,
+                label: 'External packages (' + packageIds.size + ')',
+                type: 'package',
+                group: 8,
+                metadata: { isExternal: true, packages: data.nodes.filter(isExternalPackage).map(n => n.label) }
+            });
+            const mergedLinks = new Map();
+            data.links.forEach(l => {
+                const source = packageIds.has(l.source) ? collapsedId : l.source;
+                const target = packageIds.has(l.target) ? collapsedId : l.target;
+                const key = l.type + '|' + source + '|' + target;
+                if (source !== target && !mergedLinks.has(key)) {
+                    mergedLinks.set(key, Object.assign({}, l, { source: source, target: target }));
+                }
+            });
+            return { nodes: viewNodes, links: Array.from(mergedLinks.values()) };
+        }
+        
+        // ワークスペースパッケージ・ワークスペースフォルダのように子孫を持つグループノードか
+        function isGroupNode(d) {
+            return (d.type === 'package' && d.metadata && d.metadata.workspace) || d.type === 'folder';
+        }
+        
+        // 折りたたまれたグループの子孫を隠し、子孫のエッジをグループノードにまとめる
+        function collapseGroups(data) {
+            const nodeById = new Map(data.nodes.map(n => [n.id, n]));
+            // 初めて表示するパッケージは折りたたんだ状態（パッケージ単位の表示）にする
+            // ワークスペースフォルダは展開した状態で表示する
+            data.nodes.filter(isGroupNode).forEach(n => {
+                if (!knownGroups.has(n.id)) {
+                    knownGroups.add(n.id);
+                    if (n.type !== 'folder') {
+                        collapsedGroups.add(n.id);
+                    }
+                }
+            });
+            
+            // 各ノードを、最も上位の折りたたまれた祖先に置き換える
+            const representative = new Map();
+            data.nodes.forEach(n => {
+                let current = n;
+                const visited = new Set();
+                while (current && current.parentId && !visited.has(current.id)) {
+                    visited.add(current.id);
+                    if (collapsedGroups.has(current.parentId)) {
+                        representative.set(n.id, current.parentId);
+                    }
+                    current = nodeById.get(current.parentId);
+                }
+            });
+            if (representative.size === 0) {
+                return data;
+            }
+            
+            const hiddenCounts = new Map();
+            representative.forEach(groupId => hiddenCounts.set(groupId, (hiddenCounts.get(groupId) || 0) + 1));
+            const viewNodes = data.nodes
+                .filter(n => !representative.has(n.id))
+                .map(n => hiddenCounts.has(n.id)
+                    ? Object.assign({}, n, { label: n.label + ' [+' + hiddenCounts.get(n.id) + ']', collapsed: true })
+                    : n);
+            
+            const mergedLinks = new Map();
+            data.links.forEach(l => {
+                const source = representative.get(l.source) || l.source;
+                const target = representative.get(l.target) || l.target;
+                const key = l.type + '|' + source + '|' + target;
+                if (source !== target && !mergedLinks.has(key)) {
+                    mergedLinks.set(key, Object.assign({}, l, { source: source, target: target }));
+                }
+            });
+            return { nodes: viewNodes, links: Array.from(mergedLinks.values()) };
+        }
+        
+        // 差分を元のグラフデータに適用
+        function applyGraphDelta(data, delta) {
+            const removedNodeIds = new Set(delta.removedNodeIds.concat(delta.upsertedNodes.map(n => n.id)));
+            const removedLinkIds = new Set(delta.removedLinkIds.concat(delta.upsertedLinks.map(l => l.id)));
+            return {
+                nodes: data.nodes.filter(n => !removedNodeIds.has(n.id)).concat(delta.upsertedNodes),
+                links: data.links.filter(l => !removedLinkIds.has(l.id)).concat(delta.upsertedLinks)
+            };
+        }
+        
         function initGraph() {
             console.log('[LLM-CodeMap Webview] initGraph called');
             const container = d3.select('#graph-container');
@@ -357,6 +640,8 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 });
             
             svg.call(zoom);
+            // ダブルクリックはグループの展開・折りたたみに使うため、ズームを無効にする
+            svg.on('dblclick.zoom', null);
             
             // メイングループ
             const g = svg.append('g');
@@ -398,6 +683,30 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 }
             });
             
+            d3.select('#toggle-packages').on('click', () => {
+                viewOptions.hidePackages = !viewOptions.hidePackages;
+                d3.select('#toggle-packages').text(viewOptions.hidePackages ? 'Show Packages' : 'Hide Packages');
+                if (rawGraphData) {
+                    updateGraph(buildView(rawGraphData));
+                }
+            });
+            
+            d3.select('#collapse-packages').on('click', () => {
+                viewOptions.collapsePackages = !viewOptions.collapsePackages;
+                d3.select('#collapse-packages').text(viewOptions.collapsePackages ? 'Expand Packages' : 'Collapse Packages');
+                if (rawGraphData) {
+                    updateGraph(buildView(rawGraphData));
+                }
+            });
+            
+            d3.select('#notice-settings').on('click', () => {
+                vscode.postMessage({ type: 'openSettings' });
+            });
+            
+            d3.select('#notice-dismiss').on('click', () => {
+                d3.select('#notice').classed('visible', false);
+            });
+            
             // ウィンドウリサイズ
             window.addEventListener('resize', () => {
                 width = container.node().clientWidth;
@@ -410,7 +719,8 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             });
         }
         
-        function updateGraph(data) {
+        // preserveLayout: 差分の適用時など、既存ノードの位置を保ったまま更新する
+        function updateGraph(data, preserveLayout) {
             console.log('[LLM-CodeMap Webview] updateGraph called');
             console.log('[LLM-CodeMap Webview] Data received:', data ? 'valid' : 'null');
             
@@ -455,9 +765,24 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             }
             
             // データを更新
+            const previousNodes = preserveLayout && nodes ? new Map(nodes.map(n => [n.id, n])) : new Map();
             nodes = data.nodes.map(d => Object.assign({}, d));
             links = data.links.map(d => Object.assign({}, d));
             
+            // 既存ノードの位置を引き継ぎ、新しいノードは親ノードの近くに置く
+            let reusedCount = 0;
+            nodes.forEach(node => {
+                const previous = previousNodes.get(node.id) || previousNodes.get(node.parentId);
+                if (previous) {
+                    const isSame = previous.id === node.id;
+                    node.x = previous.x + (isSame ? 0 : (Math.random() - 0.5) * 40);
+                    node.y = previous.y + (isSame ? 0 : (Math.random() - 0.5) * 40);
+                    node.vx = isSame ? previous.vx : 0;
+                    node.vy = isSame ? previous.vy : 0;
+                    reusedCount += isSame ? 1 : 0;
+                }
+            });
+            
             // 情報を更新
             d3.select('#info').text('Nodes: ' + nodes.length + ' | Links: ' + links.length);
             
@@ -497,6 +822,9 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             });
             
             // フォースシミュレーション
+            if (simulation) {
+                simulation.stop();
+            }
             simulation = d3.forceSimulation(nodes)
                 .force('link', links.length > 0 ? d3.forceLink(links).id(d => d.id).distance(100) : null)
                 .force('charge', d3.forceManyBody().strength(-300))
@@ -538,7 +866,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 // 新規追加
                 const linkEnter = linkSelection.enter()
                     .append('line')
-                    .attr('class', d => 'link ' + (d.type || ''))
+                    .attr('class', d => 'link ' + (d.type || '') + getImportKindClass(d) + getCrossFolderClass(d) + getPathClass(d))
                     .attr('stroke', d => {
                         const typeStr = String(d.type || 'reference');
                         const color = edgeColors[typeStr] || '#999';
@@ -566,6 +894,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 
                 // 既存のリンクのスタイルも更新
                 linkSelection
+                    .attr('class', d => 'link ' + (d.type || '') + getImportKindClass(d) + getCrossFolderClass(d) + getPathClass(d))
                     .attr('stroke', d => {
                         const typeStr = String(d.type || 'reference');
                         return edgeColors[typeStr] || '#999';
@@ -617,6 +946,8 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                     if (typeStr === 'class') return 12;
                     if (typeStr === 'function') return 10;
                     if (typeStr === 'method') return 8;
+                    if (typeStr === 'package') return 11;
+                    if (typeStr === 'folder') return 16;
                     return 6;
                 })
                 .attr('fill', d => {
@@ -647,6 +978,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 .attr('fill', 'var(--vscode-foreground)');
             
             nodeSelection = nodeEnter.merge(nodeSelection);
+            nodeSelection.attr('class', d => 'node' + getPathClass(d) + getImpactClass(d));
             
             // 既存のノードの色も更新
             nodeSelection.select('circle')
@@ -660,7 +992,7 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             
             // イベントハンドラー
             nodeSelection.on('click', (event, d) => {
-                if (d.filePath) {
+                if (d.filePath && !isGroupNode(d)) {
                     vscode.postMessage({
                         type: 'nodeClick',
                         filePath: d.filePath,
@@ -670,6 +1002,19 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 }
             });
             
+            // グループノードをダブルクリックで展開・折りたたみ
+            nodeSelection.on('dblclick', (event, d) => {
+                if (!isGroupNode(d) || !rawGraphData) {
+                    return;
+                }
+                if (collapsedGroups.has(d.id)) {
+                    collapsedGroups.delete(d.id);
+                } else {
+                    collapsedGroups.add(d.id);
+                }
+                updateGraph(buildView(rawGraphData));
+            });
+            
             nodeSelection.on('mouseover', (event, d) => {
                 let html = '<strong>' + d.label + '</strong><br/>';
                 html += 'Type: ' + d.type + '<br/>';
@@ -679,6 +1024,31 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 if (d.line) {
                     html += 'Line: ' + d.line;
                 }
+                if (d.metadata && d.metadata.installedVersion) {
+                    html += 'Installed: ' + d.metadata.installedVersion + '<br/>';
+                }
+                if (d.metadata && d.metadata.dependencyType) {
+                    html += 'Declared in: ' + d.metadata.dependencyType + '<br/>';
+                }
+                if (d.metadata && d.metadata.packages) {
+                    html += d.metadata.packages.join('<br/>');
+                }
+                if (d.metadata && d.metadata.overview) {
+                    html += 'Grouped to fit the node limit<br/>';
+                }
+                if (d.metadata && d.metadata.pathIndexes) {
+                    html += 'On path ' + d.metadata.pathIndexes.join(', ') + '<br/>';
+                }
+                if (d.metadata && d.metadata.impactDistance !== undefined) {
+                    html += (d.metadata.impactDistance === 0 ? 'Changed' : 'Impact distance: ' + d.metadata.impactDistance) + '<br/>';
+                }
+                if (d.metadata && d.metadata.isTestFile) {
+                    html += 'Test file in the blast radius<br/>';
+                }
+                if (isGroupNode(d)) {
+                    html += (d.metadata.fileCount || 0) + ' file(s)<br/>';
+                    html += 'Double-click to ' + (d.collapsed ? 'expand' : 'collapse');
+                }
                 tooltip
                     .html(html)
                     .style('left', (event.pageX + 10) + 'px')
@@ -690,6 +1060,55 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 tooltip.classed('visible', false);
             });
             
+            // エッジのクリックで呼び出し位置・アクセス位置へジャンプ
+            linkSelection.on('click', (event, d) => {
+                const sites = d.metadata && (d.metadata.callSites || d.metadata.accessSites);
+                const sourceId = typeof d.source === 'object' ? d.source.id : d.source;
+                const sourceNode = nodes.find(n => n.id === sourceId);
+                if (sites && sites.length > 0 && sourceNode && sourceNode.filePath) {
+                    vscode.postMessage({
+                        type: 'nodeClick',
+                        filePath: sourceNode.filePath,
+                        line: sites[0].line,
+                        column: sites[0].column
+                    });
+                }
+            });
+            
+            linkSelection.on('mouseover', (event, d) => {
+                const sites = d.metadata && (d.metadata.callSites || d.metadata.accessSites);
+                const kindClass = getImportKindClass(d);
+                const crossFolder = !!getCrossFolderClass(d);
+                const edgeCount = d.metadata && d.metadata.edgeCount;
+                const pathIndexes = d.metadata && d.metadata.pathIndexes;
+                if ((!sites || sites.length === 0) && !kindClass && !crossFolder && !edgeCount && !pathIndexes) {
+                    return;
+                }
+                let html = '<strong>' + d.type + (kindClass ? ' (' + kindClass.trim() + ')' : '') + '</strong>';
+                if (crossFolder) {
+                    html += '<br/>Across workspace folders';
+                }
+                if (edgeCount) {
+                    html += '<br/>' + edgeCount + ' dependencies grouped';
+                }
+                if (pathIndexes) {
+                    html += '<br/>On path ' + pathIndexes.join(', ');
+                }
+                if (sites && sites.length > 0) {
+                    html += '<br/>' + sites.length + ' site(s), first at line ' + sites[0].line + '<br/>';
+                    html += 'Click to jump';
+                }
+                tooltip
+                    .html(html)
+                    .style('left', (event.pageX + 10) + 'px')
+                    .style('top', (event.pageY - 10) + 'px')
+                    .classed('visible', true);
+            });
+            
+            linkSelection.on('mouseout', () => {
+                tooltip.classed('visible', false);
+            });
+            
             // シミュレーションの更新
             let tickCount = 0;
             simulation.on('tick', () => {
@@ -764,8 +1183,8 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
                 }
             });
             
-            // シミュレーションを開始
-            simulation.alpha(1).restart();
+            // シミュレーションを開始（位置を保つ場合は少しだけ動かす）
+            simulation.alpha(preserveLayout && reusedCount > 0 ? 0.3 : 1).restart();
             
             function dragstarted(event, d) {
                 if (!event.active) simulation.alphaTarget(0.3).restart();
@@ -785,6 +1204,12 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             }
         }
         
+        // グラフを縮約・間引いた場合の通知を表示する（noticeがなければ隠す）
+        function showNotice(notice) {
+            d3.select('#notice-text').text(notice || '');
+            d3.select('#notice').classed('visible', !!notice);
+        }
+        
         // メッセージ受信
         console.log('[LLM-CodeMap Webview] Setting up message listener...');
         window.addEventListener('message', event => {
@@ -798,7 +1223,17 @@ export class CodemapViewProvider implements vscode.WebviewViewProvider {
             switch (message.type) {
                 case 'updateGraph':
                     console.log('[LLM-CodeMap Webview] Updating graph with data: nodes=' + (message.data?.nodes?.length || 0) + ', links=' + (message.data?.links?.length || 0));
-                    updateGraph(message.data);
+                    rawGraphData = message.data;
+                    showNotice(message.notice);
+                    updateGraph(buildView(rawGraphData), message.preserveLayout);
+                    break;
+                case 'updateGraphDelta':
+                    if (!rawGraphData) {
+                        return;
+                    }
+                    rawGraphData = applyGraphDelta(rawGraphData, message.data);
+                    showNotice(message.notice);
+                    updateGraph(buildView(rawGraphData), true);
                     break;
                 default:
                     console.warn('[LLM-CodeMap Webview] Unknown message type:', message.type);
@@ -1,4 +1,4 @@
-import { GraphData, GraphNode, GraphEdge, NodeType, EdgeType } from '../analyzer/types';
+import { GraphData, GraphDelta, GraphNode, GraphEdge, NodeType, EdgeType } from '../analyzer/types';
 
 /**
  * D3.js用のデータ変換
@@ -11,15 +11,18 @@ export interface D3Node {
   filePath?: string;
   line?: number;
   column?: number;
+  parentId?: string;
   metadata?: any;
 }
 
 export interface D3Link {
+  id: string;
   source: string;
   target: string;
   type: string;
   label?: string;
   value?: number;
+  metadata?: Record<string, unknown>; // 呼び出し位置（callSites）・アクセス位置（accessSites）など
 }
 
 export interface D3GraphData {
@@ -27,6 +30,13 @@ export interface D3GraphData {
   links: D3Link[];
 }
 
+export interface D3GraphDelta {
+  upsertedNodes: D3Node[];
+  removedNodeIds: string[];
+  upsertedLinks: D3Link[];
+  removedLinkIds: string[];
+}
+
 /**
  * GraphDataをD3.js用の形式に変換
  */
@@ -37,6 +47,18 @@ export function transformToD3Format(graphData: GraphData): D3GraphData {
   return { nodes, links };
 }
 
+/**
+ * グラフの差分をD3.js用の形式に変換
+ */
+export function transformDeltaToD3Format(delta: GraphDelta): D3GraphDelta {
+  return {
+    upsertedNodes: delta.upsertedNodes.map((node) => transformNode(node)),
+    removedNodeIds: delta.removedNodeIds,
+    upsertedLinks: delta.upsertedEdges.map((edge) => transformLink(edge)),
+    removedLinkIds: delta.removedEdgeIds,
+  };
+}
+
 /**
  * GraphNodeをD3Nodeに変換
  */
@@ -52,6 +74,7 @@ function transformNode(node: GraphNode): D3Node {
     filePath: node.filePath,
     line: node.line,
     column: node.column,
+    parentId: node.parentId,
     metadata: node.metadata,
   };
 }
@@ -61,11 +84,13 @@ function transformNode(node: GraphNode): D3Node {
  */
 function transformLink(edge: GraphEdge): D3Link {
   return {
+    id: edge.id,
     source: String(edge.source),
     target: String(edge.target),
     type: String(edge.type),
     label: edge.label,
     value: getEdgeValue(edge.type),
+    metadata: edge.metadata,
   };
 }
 
@@ -88,6 +113,10 @@ function getNodeGroup(nodeType: NodeType): number {
       return 6;
     case NodeType.Variable:
       return 7;
+    case NodeType.Package:
+      return 8;
+    case NodeType.Folder:
+      return 9;
     default:
       return 0;
   }
@@ -110,6 +139,12 @@ function getEdgeValue(edgeType: EdgeType): number {
       return 2;
     case EdgeType.Reference:
       return 1;
+    case EdgeType.Reads:
+      return 1;
+    case EdgeType.Writes:
+      return 2;
+    case EdgeType.Instantiates:
+      return 2;
     default:
       return 1;
   }
@@ -134,6 +169,10 @@ export function getNodeColor(nodeType: NodeType): string {
       return '#8c564b'; // 茶色
     case NodeType.Variable:
       return '#e377c2'; // ピンク
+    case NodeType.Package:
+      return '#393b79'; // 紺
+    case NodeType.Folder:
+      return '#637939'; // オリーブ
     default:
       return '#7f7f7f'; // グレー
   }
@@ -156,6 +195,12 @@ export function getEdgeColor(edgeType: EdgeType): string {
       return '#9467bd'; // 紫
     case EdgeType.Reference:
       return '#7f7f7f'; // グレー
+    case EdgeType.Reads:
+      return '#17becf'; // シアン
+    case EdgeType.Writes:
+      return '#bcbd22'; // オリーブ
+    case EdgeType.Instantiates:
+      return '#e7ba52'; // 金色
     default:
       return '#7f7f7f';
   }